@@ -0,0 +1,141 @@
+import { DbConnection } from './module_bindings';
+import { Identity } from 'spacetimedb';
+
+// ============================================================
+// Data sources
+// ============================================================
+// The viewer only ever talks to the DbConnection surface: conn.db.<table>,
+// conn.reducers.<reducer>/on<Reducer>, subscriptionBuilder() and disconnect().
+// A data source decides what sits behind it: a live SpacetimeDB module, the
+// in-memory mock (mock_server.ts) or a recording being replayed.
+export interface ConnectHandlers {
+  onConnect(conn: DbConnection, identity: Identity, token: string): void;
+  onDisconnect(): void;
+  onConnectError(err: unknown): void;
+}
+export type DataSource = (server: string, module: string, token: string | undefined, handlers: ConnectHandlers) => DbConnection;
+
+export const spacetimeDataSource: DataSource = (server, module, token, handlers) =>
+  DbConnection.builder()
+    .withUri(server)
+    .withModuleName(module)
+    .withToken(token)
+    .onConnect((c, identity, newToken) => handlers.onConnect(c, identity, newToken))
+    .onDisconnect(() => handlers.onDisconnect())
+    .onConnectError((_ctx, err) => handlers.onConnectError(err))
+    .build();
+
+// ============================================================
+// Local tables (client cache stand-ins)
+// ============================================================
+type RowCallback = (ctx: any, ...rows: any[]) => void;
+
+// Rows are keyed like the server's primary keys: id, or identity for agent-shaped rows
+export function rowKey(row: any): string {
+  return row.id !== undefined ? String(row.id) : row.identity.toHexString();
+}
+
+// In-memory table with the iter/count/callback surface the viewer uses
+export function createLocalTable() {
+  const rows = new Map<string, any>();
+  const listeners = { insert: [] as RowCallback[], update: [] as RowCallback[], delete: [] as RowCallback[] };
+  const remove = (list: RowCallback[], cb: RowCallback) => { const i = list.indexOf(cb); if (i !== -1) list.splice(i, 1); };
+  const table = {
+    iter: () => rows.values(),
+    count: () => rows.size,
+    get: (key: string) => rows.get(key),
+    keys: () => rows.keys(),
+    onInsert: (cb: RowCallback) => { listeners.insert.push(cb); },
+    onUpdate: (cb: RowCallback) => { listeners.update.push(cb); },
+    onDelete: (cb: RowCallback) => { listeners.delete.push(cb); },
+    removeOnInsert: (cb: RowCallback) => remove(listeners.insert, cb),
+    removeOnUpdate: (cb: RowCallback) => remove(listeners.update, cb),
+    removeOnDelete: (cb: RowCallback) => remove(listeners.delete, cb),
+    insert(row: any, ctx: any = {}) {
+      rows.set(rowKey(row), row);
+      for (const cb of [...listeners.insert]) cb(ctx, row);
+    },
+    update(oldRow: any, row: any, ctx: any = {}) {
+      rows.delete(rowKey(oldRow));
+      rows.set(rowKey(row), row);
+      for (const cb of [...listeners.update]) cb(ctx, oldRow, row);
+    },
+    delete(row: any, ctx: any = {}) {
+      const existing = rows.get(rowKey(row));
+      if (!existing) return;
+      rows.delete(rowKey(row));
+      for (const cb of [...listeners.delete]) cb(ctx, existing);
+    },
+    clear() {
+      for (const row of [...rows.values()]) table.delete(row);
+    },
+  };
+  return table;
+}
+export type LocalTable = ReturnType<typeof createLocalTable>;
+
+export interface LocalConnectionOptions {
+  // Called for every reducer invocation (conn.reducers.move(args) -> 'move', args)
+  onReducer?: (reducer: string, args: any) => void;
+  // Called before onApplied of each subscription: the place to fill the tables
+  onSubscribe?: (queries: string[]) => void;
+  onDisconnect?: () => void;
+}
+
+// Connection whose tables all live in memory. Tables are created on first access.
+export function createLocalConnection(options: LocalConnectionOptions = {}) {
+  const tables: Record<string, LocalTable> = {};
+  const reducerListeners = new Map<string, RowCallback[]>(); // 'move' -> onMove callbacks
+  const table = (accessor: string): LocalTable => (tables[accessor] ??= createLocalTable());
+  const reducerName = (prefix: string, name: string) => name.charAt(prefix.length).toLowerCase() + name.slice(prefix.length + 1);
+  const db = new Proxy({}, { get: (_t, name: string) => table(name) });
+  const reducers = new Proxy({}, {
+    get: (_t, name: string) => {
+      if (name.startsWith('removeOn')) {
+        return (cb: RowCallback) => {
+          const list = reducerListeners.get(reducerName('removeOn', name));
+          const i = list?.indexOf(cb) ?? -1;
+          if (i !== -1) list!.splice(i, 1);
+        };
+      }
+      if (name.startsWith('on')) {
+        return (cb: RowCallback) => {
+          const reducer = reducerName('on', name);
+          reducerListeners.set(reducer, [...(reducerListeners.get(reducer) ?? []), cb]);
+        };
+      }
+      return (args: any = {}) => options.onReducer?.(name, args);
+    },
+  });
+  const subscriptionBuilder = () => {
+    let applied: ((ctx: any) => void) | null = null;
+    const builder = {
+      onApplied: (cb: (ctx: any) => void) => { applied = cb; return builder; },
+      onError: () => builder,
+      subscribe: (queries: string | string[]) => {
+        queueMicrotask(() => {
+          options.onSubscribe?.(Array.isArray(queries) ? queries : [queries]);
+          applied?.({});
+        });
+        return { unsubscribe() {}, isActive: () => true, isEnded: () => false };
+      },
+    };
+    return builder;
+  };
+  const fake = {
+    db,
+    reducers,
+    subscriptionBuilder,
+    disconnect: () => options.onDisconnect?.(),
+  };
+  return {
+    conn: fake as unknown as DbConnection,
+    tables,
+    table,
+    // Fires the on<Reducer> callbacks, like a reducer event arriving from the server
+    emitReducer(reducer: string, ctx: any, args: any) {
+      for (const cb of [...(reducerListeners.get(reducer) ?? [])]) cb(ctx, args);
+    },
+  };
+}
+export type LocalConnection = ReturnType<typeof createLocalConnection>;
@@ -1,5 +1,7 @@
 import { DbConnection, SubscriptionBuilder, type EventContext, type ReducerEventContext, type SubscriptionEventContext, type ErrorContext } from './module_bindings';
 import { Identity } from 'spacetimedb';
+import { createLocalConnection, spacetimeDataSource, type DataSource, type LocalConnection } from './data_source';
+import { MOCK_SERVER_URI, mockDataSource } from './mock_server';
 
 // ============================================================
 // Constants
@@ -24,6 +26,7 @@ let chatText = '';
 let useMode = false; // F pressed, waiting for direction
 let lastActionTime = 0;
 let showItemLabels = false; // Toggle with L key
+let spectating = false; // Connected with an observed agent's token (read-only, camera follows it)
 const CLIENT_COOLDOWN = 200; // ms, throttle actions client-side
 
 // Death detection: Views API fires onDelete+onInsert on every re-evaluation (false positives)
@@ -34,7 +37,7 @@ let deathFrameCount = 0; // Consecutive frames with no agent in view
 // Visual feedback for actions
 type ActionEffect = { type: 'success' | 'failed'; x: number; y: number; time: number } | null;
 let actionEffect: ActionEffect = null;
-const ACTION_EFFECT_DURATION = 400; // ms
+const ACTION_EFFECT_DURATION = 450; // ms
 
 // Camera
 let camX = 0, camY = 0;
@@ -42,6 +45,8 @@ let zoom = 1;
 let dragging = false;
 let dragStartX = 0, dragStartY = 0;
 let camStartX = 0, camStartY = 0;
+// Tile picked from a panel (event feed, ...): overrides follow until Esc or a move
+let cameraFocus: { x: number; y: number } | null = null;
 
 // Canvas
 const canvas = document.getElementById('game') as HTMLCanvasElement;
@@ -51,6 +56,9 @@ const chatBox = document.getElementById('chat-box') as HTMLDivElement;
 const hud = document.getElementById('hud') as HTMLDivElement;
 const playBtn = document.getElementById('play-btn') as HTMLButtonElement;
 const leaderboardDiv = document.getElementById('leaderboard') as HTMLDivElement;
+const eventFeedList = document.getElementById('event-feed-list') as HTMLDivElement;
+const eventFilterActor = document.getElementById('event-filter-actor') as HTMLSelectElement;
+const eventFilterAction = document.getElementById('event-filter-action') as HTMLSelectElement;
 
 // Messages with timestamps for fading
 const MESSAGE_DURATION_MS = 8000; // How long messages float above agents (8 seconds)
@@ -62,8 +70,44 @@ const loadedChunks = new Set<string>();
 // ============================================================
 // Tag helpers (client side)
 // ============================================================
-function parseTags(tags: string): Map<string, string | number | true> {
-  const map = new Map<string, string | number | true>();
+// Tags are comma-separated tokens: bare flags ("blocking"), numbers ("hp:80")
+// and strings ("name:tree"). Quirk of the format: a non-numeric key:value token is
+// stored as a whole-token flag, so has('name:tree') works and str('name') gives 'tree'.
+type TagMap = Map<string, string | number | true>;
+type ParsedTags = {
+  readonly map: TagMap; // Raw parse (numbers by key, everything else as whole-token flags)
+  has(tag: string): boolean; // Flag or whole token present
+  num(key: string): number; // Numeric value, 0 if absent
+  str(key: string): string | null; // Value of a key:value token (numbers as text)
+  // Known keys
+  readonly hp: number;
+  readonly satiety: number;
+  readonly bornAt: number;
+  readonly name: string | null;
+  readonly surface: string | null;
+  readonly food: boolean;
+  readonly blocking: boolean;
+  readonly rooted: boolean;
+  readonly lit: boolean;
+  readonly harvestable: boolean;
+  readonly burning: boolean;
+};
+
+// Each distinct tag string is parsed once. Bounded: hp/satiety/born_at make strings churn.
+const TAG_CACHE_MAX = 5000;
+const tagCache = new Map<string, ParsedTags>();
+
+function tagsOf(tags: string): ParsedTags {
+  let parsed = tagCache.get(tags);
+  if (parsed) return parsed;
+  if (tagCache.size >= TAG_CACHE_MAX) tagCache.clear();
+  parsed = buildParsedTags(tags);
+  tagCache.set(tags, parsed);
+  return parsed;
+}
+
+function parseTags(tags: string): TagMap {
+  const map: TagMap = new Map();
   if (!tags) return map;
   for (const token of tags.split(',')) {
     if (!token) continue;
@@ -77,45 +121,451 @@ function parseTags(tags: string): Map<string, string | number | true> {
   }
   return map;
 }
-function getTag(tags: string, key: string): number {
-  const m = parseTags(tags);
-  const v = m.get(key);
-  return typeof v === 'number' ? v : 0;
+
+function buildParsedTags(tags: string): ParsedTags {
+  const map = parseTags(tags);
+  // key -> value for every key:value token, numeric or not
+  const values = new Map<string, string>();
+  for (const [k, v] of map) {
+    if (typeof v === 'number') { values.set(k, String(v)); continue; }
+    const idx = k.indexOf(':');
+    if (idx !== -1) values.set(k.substring(0, idx), k.substring(idx + 1));
+  }
+  const num = (key: string) => { const v = map.get(key); return typeof v === 'number' ? v : 0; };
+  const flag = (key: string) => map.has(key) || values.has(key); // "food" or "food:20"
+  return {
+    map,
+    has: (tag) => map.has(tag),
+    num,
+    str: (key) => values.get(key) ?? null,
+    hp: num('hp'),
+    satiety: num('satiety'),
+    bornAt: num('born_at'),
+    name: values.get('name') ?? null,
+    surface: values.get('surface') ?? null,
+    food: flag('food'),
+    blocking: flag('blocking'),
+    rooted: flag('rooted'),
+    lit: flag('lit'),
+    harvestable: flag('harvestable'),
+    burning: flag('burning'),
+  };
+}
+
+// Escape server/user-provided text before putting it into innerHTML
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+// Surface colour for a tile (shared by world canvas and minimap)
+function getTileColor(tags: string): string {
+  const surface = tagsOf(tags).surface;
+  return (surface && COLORS[surface]) || '#333';
 }
-function hasTag(tags: string, t: string): boolean { return parseTags(tags).has(t); }
 
 // ============================================================
-// Connection
+// Server / module selection (?server=, ?module=, settings dialog)
 // ============================================================
+const DEFAULT_SERVER_URI = 'wss://maincloud.spacetimedb.com';
+const DEFAULT_MODULE = 'clawworld';
+const RECENT_SERVERS_MAX = 8;
+type ServerTarget = { server: string; module: string };
+
+// "local" -> localhost, bare host[:port] -> ws:// for loopback, wss:// otherwise
+function normalizeServerUri(server: string): string {
+  const s = server.trim();
+  if (!s || s === 'maincloud') return DEFAULT_SERVER_URI;
+  if (s === 'local') return 'ws://localhost:3000';
+  if (s === 'mock' || s === MOCK_SERVER_URI) return MOCK_SERVER_URI;
+  if (/^(wss?|https?):\/\//.test(s)) return s.replace(/\/+$/, '');
+  const loopback = /^(localhost|127\.|\[::1\])/.test(s);
+  return `${loopback ? 'ws' : 'wss'}://${s.replace(/\/+$/, '')}`;
+}
 
-// Server URL: use ?server=local for localhost, otherwise maincloud
+// URL parameters win over the last target picked in the settings dialog
 function getServerUri(): string {
-  const params = new URLSearchParams(window.location.search);
-  if (params.get('server') === 'local') {
-    return 'ws://localhost:3000';
+  const param = new URLSearchParams(window.location.search).get('server');
+  return normalizeServerUri(param ?? localStorage.getItem('clawworld_server') ?? '');
+}
+
+function getModuleName(): string {
+  const param = new URLSearchParams(window.location.search).get('module');
+  return (param ?? localStorage.getItem('clawworld_module') ?? '').trim() || DEFAULT_MODULE;
+}
+
+// The mock counts as local: its admin reducers are open to everyone
+function isLocalServer(): boolean {
+  const server = getServerUri();
+  return server === MOCK_SERVER_URI || /^wss?:\/\/(localhost|127\.|\[::1\])/.test(server);
+}
+
+// ?server=mock swaps the SpacetimeDB connection for the in-memory world
+function getDataSource(server: string): DataSource {
+  return server === MOCK_SERVER_URI ? mockDataSource : spacetimeDataSource;
+}
+
+// Tokens are per server + module: an identity from staging means nothing on maincloud
+// (own tokens live in profiles; 'clawworld_token' is only read to migrate old storage)
+type TokenKind = 'clawworld_token' | 'clawworld_observe_token';
+function tokenKey(kind: TokenKind): string {
+  return `${kind}:${getModuleName()}@${getServerUri()}`;
+}
+
+function loadToken(kind: TokenKind): string | null {
+  const key = tokenKey(kind);
+  const token = localStorage.getItem(key);
+  if (token) return token;
+  // Keys from before per-server storage always meant maincloud/clawworld
+  const legacy = localStorage.getItem(kind);
+  if (legacy && getServerUri() === DEFAULT_SERVER_URI && getModuleName() === DEFAULT_MODULE) {
+    localStorage.setItem(key, legacy);
+    localStorage.removeItem(kind);
+    return legacy;
+  }
+  return null;
+}
+
+function saveToken(kind: TokenKind, token: string) {
+  localStorage.setItem(tokenKey(kind), token);
+}
+
+function clearToken(kind: TokenKind) {
+  localStorage.removeItem(tokenKey(kind));
+}
+
+function getRecentServers(): ServerTarget[] {
+  try {
+    const list = JSON.parse(localStorage.getItem('clawworld_recent_servers') || '[]');
+    return Array.isArray(list) ? list.filter(t => typeof t?.server === 'string' && typeof t?.module === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function rememberServer(target: ServerTarget) {
+  const recent = getRecentServers().filter(t => t.server !== target.server || t.module !== target.module);
+  recent.unshift(target);
+  localStorage.setItem('clawworld_recent_servers', JSON.stringify(recent.slice(0, RECENT_SERVERS_MAX)));
+}
+
+const settingsDialog = document.getElementById('settings-dialog') as HTMLDivElement;
+const settingsServer = document.getElementById('settings-server') as HTMLInputElement;
+const settingsModule = document.getElementById('settings-module') as HTMLInputElement;
+const settingsRecent = document.getElementById('settings-recent') as HTMLDivElement;
+
+function openSettings() {
+  settingsServer.value = getServerUri();
+  settingsModule.value = getModuleName();
+  const recent = getRecentServers();
+  settingsRecent.innerHTML = recent.length === 0 ? '<div class="muted">No recent servers</div>'
+    : recent.map((t, i) => `<div class="recent" data-index="${i}">${escapeHtml(t.module)} @ ${escapeHtml(t.server)}</div>`).join('');
+  settingsDialog.style.display = 'flex';
+  settingsServer.focus();
+}
+
+function closeSettings() {
+  settingsDialog.style.display = 'none';
+}
+
+// Switch target: persist it, mirror it in the URL (so reload/bookmarks keep it) and reconnect
+function applySettings() {
+  const target = { server: normalizeServerUri(settingsServer.value), module: settingsModule.value.trim() || DEFAULT_MODULE };
+  closeSettings();
+  if (target.server === getServerUri() && target.module === getModuleName()) return;
+  localStorage.setItem('clawworld_server', target.server);
+  localStorage.setItem('clawworld_module', target.module);
+  const url = new URL(window.location.href);
+  url.searchParams.set('server', target.server);
+  url.searchParams.set('module', target.module);
+  history.replaceState(null, '', url);
+  rememberServer(target);
+  reconnect();
+}
+
+settingsRecent.addEventListener('click', (e) => {
+  const row = (e.target as HTMLElement).closest('.recent') as HTMLElement | null;
+  if (!row) return;
+  const target = getRecentServers()[Number(row.dataset.index)];
+  if (!target) return;
+  settingsServer.value = target.server;
+  settingsModule.value = target.module;
+});
+document.getElementById('settings-connect')!.addEventListener('click', () => applySettings());
+document.getElementById('settings-cancel')!.addEventListener('click', () => closeSettings());
+settingsDialog.addEventListener('keydown', (e) => {
+  if (e.key === 'Enter') applySettings();
+  else if (e.key === 'Escape') closeSettings();
+});
+
+// ============================================================
+// Profiles (named identity tokens per server + module)
+// ============================================================
+interface Profile {
+  id: string;
+  name: string;
+  server: string;
+  module: string;
+  token: string; // Empty until the server hands out an identity
+  createdAt: number;
+  agentName?: string; // Last agent seen with this identity
+}
+
+function loadProfiles(): Profile[] {
+  try {
+    const list = JSON.parse(localStorage.getItem('clawworld_profiles') || '[]');
+    return Array.isArray(list) ? list.filter(isProfile) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isProfile(p: any): p is Profile {
+  return !!p && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.server === 'string'
+    && typeof p.module === 'string' && typeof p.token === 'string'
+    && typeof p.createdAt === 'number' && Number.isFinite(p.createdAt)
+    && (p.agentName === undefined || typeof p.agentName === 'string');
+}
+
+function saveProfiles(list: Profile[]) {
+  localStorage.setItem('clawworld_profiles', JSON.stringify(list));
+}
+
+function targetProfiles(): Profile[] {
+  const server = getServerUri(), module = getModuleName();
+  return loadProfiles().filter(p => p.server === server && p.module === module);
+}
+
+function createProfile(name: string, token = ''): Profile {
+  const profile: Profile = {
+    id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+    name, server: getServerUri(), module: getModuleName(), token, createdAt: Date.now(),
+  };
+  saveProfiles([...loadProfiles(), profile]);
+  return profile;
+}
+
+function nextProfileName(): string {
+  const names = new Set(targetProfiles().map(p => p.name));
+  let i = names.size + 1;
+  while (names.has(`Profile ${i}`)) i++;
+  return `Profile ${i}`;
+}
+
+function setActiveProfile(id: string) {
+  localStorage.setItem(tokenKey('clawworld_token') + ':active', id);
+  tokenFailurePrompted = false;
+}
+
+// Active profile for the current target; adopts a token from the old single-key storage
+function getActiveProfile(): Profile | null {
+  const profiles = targetProfiles();
+  const activeId = localStorage.getItem(tokenKey('clawworld_token') + ':active');
+  const active = profiles.find(p => p.id === activeId);
+  if (active) return active;
+  const legacy = loadToken('clawworld_token');
+  if (legacy) {
+    clearToken('clawworld_token');
+    const existing = profiles.find(p => p.token === legacy);
+    const profile = existing ?? createProfile('Default', legacy);
+    setActiveProfile(profile.id);
+    return profile;
+  }
+  if (profiles.length > 0) { setActiveProfile(profiles[0].id); return profiles[0]; }
+  return null;
+}
+
+function updateProfile(id: string, change: Partial<Profile>) {
+  saveProfiles(loadProfiles().map(p => (p.id === id ? { ...p, ...change } : p)));
+}
+
+// Token the server issued on connect: fills the active profile (or a first "Default" one)
+function storeProfileToken(token: string) {
+  const active = getActiveProfile();
+  if (!active) { setActiveProfile(createProfile('Default', token).id); return; }
+  if (active.token !== token) updateProfile(active.id, { token });
+}
+
+function rememberProfileAgent(agentName: string) {
+  const active = getActiveProfile();
+  // Called on every my_agent re-insert: only write (and re-render) on a change
+  if (!active || active.agentName === agentName) return;
+  updateProfile(active.id, { agentName });
+  if (profilesDialog.style.display === 'flex') renderProfiles();
+}
+
+const profilesDialog = document.getElementById('profiles-dialog') as HTMLDivElement;
+const profilesList = document.getElementById('profiles-list') as HTMLDivElement;
+const profilesImport = document.getElementById('profiles-import') as HTMLInputElement;
+
+function renderProfiles() {
+  const active = getActiveProfile();
+  const profiles = targetProfiles();
+  document.getElementById('profiles-target')!.textContent = `${getModuleName()} @ ${getServerUri()}`;
+  if (profiles.length === 0) { profilesList.innerHTML = '<div class="muted">No profiles yet</div>'; return; }
+  profilesList.innerHTML = profiles.map(p => `<div class="profile${p.id === active?.id ? ' active' : ''}" data-id="${escapeHtml(p.id)}">
+    <div><b>${escapeHtml(p.name)}</b>${p.id === active?.id ? ' <span class="muted">(active)</span>' : ''}
+      <div class="muted">${p.agentName ? `agent ${escapeHtml(p.agentName)} · ` : ''}${p.token ? 'token saved' : 'no token yet'} · since ${new Date(p.createdAt).toLocaleDateString()}</div></div>
+    <div class="actions">
+      ${p.id === active?.id ? '' : '<button data-action="use">Use</button>'}
+      <button data-action="rename">Rename</button>
+      <button data-action="delete">Delete</button>
+    </div>
+  </div>`).join('');
+}
+
+function openProfiles() {
+  renderProfiles();
+  profilesDialog.style.display = 'flex';
+}
+
+function closeProfiles() {
+  profilesDialog.style.display = 'none';
+}
+
+// Switch identity in place: reconnect with the other profile's token
+function switchProfile(id: string) {
+  if (id === getActiveProfile()?.id) return;
+  clearToken('clawworld_observe_token');
+  setActiveProfile(id);
+  closeProfiles();
+  reconnect();
+}
+
+function deleteProfile(profile: Profile) {
+  const agent = profile.agentName ? ` (agent "${profile.agentName}")` : '';
+  if (profile.token && !confirm(`Delete profile "${profile.name}"${agent}?\n\nIts token is thrown away and the identity can't be recovered unless you exported it.`)) return;
+  const wasActive = profile.id === getActiveProfile()?.id;
+  saveProfiles(loadProfiles().filter(p => p.id !== profile.id));
+  if (wasActive) {
+    localStorage.removeItem(tokenKey('clawworld_token') + ':active');
+    closeProfiles();
+    reconnect();
+    return;
+  }
+  renderProfiles();
+}
+
+// Revoking right after click() can cancel the download (Firefox, Safari)
+function downloadJson(filename: string, data: string) {
+  const url = URL.createObjectURL(new Blob([data], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function exportProfiles() {
+  const data = JSON.stringify({ version: 1, profiles: loadProfiles() }, null, 2);
+  downloadJson(`clawworld-profiles-${new Date().toISOString().slice(0, 10)}.json`, data);
+}
+
+// Merge an export: profiles with a token we already have are skipped
+async function importProfiles(file: File) {
+  let imported: Profile[];
+  try {
+    const data = JSON.parse(await file.text());
+    imported = (Array.isArray(data?.profiles) ? data.profiles : []).filter(isProfile);
+  } catch (err) {
+    alert(`Could not read profiles: ${err}`);
+    return;
   }
-  return 'wss://maincloud.spacetimedb.com';
+  const profiles = loadProfiles();
+  const known = new Set(profiles.map(p => `${p.server}|${p.module}|${p.token}`));
+  const ids = new Set(profiles.map(p => p.id));
+  let added = 0;
+  for (const p of imported) {
+    if (p.token && known.has(`${p.server}|${p.module}|${p.token}`)) continue;
+    profiles.push(ids.has(p.id) ? { ...p, id: p.id + Math.random().toString(36).slice(2, 6) } : p);
+    added++;
+  }
+  saveProfiles(profiles);
+  renderProfiles();
+  alert(`Imported ${added} profile${added === 1 ? '' : 's'} (${imported.length - added} already present).`);
 }
 
+profilesList.addEventListener('click', (e) => {
+  const btn = (e.target as HTMLElement).closest('button');
+  const row = btn?.closest('.profile') as HTMLElement | null;
+  const profile = row && targetProfiles().find(p => p.id === row.dataset.id);
+  if (!btn || !profile) return;
+  if (btn.dataset.action === 'use') switchProfile(profile.id);
+  else if (btn.dataset.action === 'delete') deleteProfile(profile);
+  else if (btn.dataset.action === 'rename') {
+    const name = prompt('Profile name:', profile.name)?.trim();
+    if (name) { updateProfile(profile.id, { name }); renderProfiles(); }
+  }
+});
+document.getElementById('profiles-new')!.addEventListener('click', () => {
+  const name = prompt('New profile name:', nextProfileName())?.trim();
+  if (!name) return;
+  switchProfile(createProfile(name).id);
+});
+document.getElementById('profiles-export')!.addEventListener('click', () => exportProfiles());
+document.getElementById('profiles-import-btn')!.addEventListener('click', () => profilesImport.click());
+profilesImport.addEventListener('change', () => {
+  const file = profilesImport.files?.[0];
+  profilesImport.value = '';
+  if (file) importProfiles(file);
+});
+document.getElementById('profiles-close')!.addEventListener('click', () => closeProfiles());
+
+// ============================================================
+// Connection
+// ============================================================
+
+// Views re-subscribed on every (re)connect
+const SUBSCRIPTION_QUERIES = [
+  'SELECT * FROM my_agent',
+  'SELECT * FROM nearby_tiles',
+  'SELECT * FROM nearby_items',
+  'SELECT * FROM nearby_agents',
+  'SELECT * FROM nearby_messages',
+  'SELECT * FROM nearby_actions',
+  'SELECT * FROM leaderboard',
+];
+
+// Reconnect backoff: 1s, 2s, 4s ... capped at 30s
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+let reconnectAttempt = 0; // Consecutive failed attempts since the last applied subscription
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let subscribed = false; // Subscription applied on the current connection (cache is live)
+let everConnected = false; // Distinguishes a stale token on first load from a dropped network
+let tokenFailurePrompted = false; // Ask about a rejected profile token only once per profile
+const reconnectBanner = document.getElementById('reconnect-banner') as HTMLDivElement;
+
 function connect() {
-  const savedToken = localStorage.getItem('clawworld_token') || undefined;
+  // Observed agent's token takes precedence over our own (spectator mode)
+  const observeToken = loadToken('clawworld_observe_token') || undefined;
+  const savedToken = observeToken || getActiveProfile()?.token || undefined;
+  spectating = !!observeToken;
   const serverUri = getServerUri();
-  console.log('Connecting to:', serverUri);
-  conn = DbConnection.builder()
-    .withUri(serverUri)
-    .withModuleName('clawworld')
-    .withToken(savedToken)
-    .onConnect((_conn, identity, token) => {
+  const moduleName = getModuleName();
+  console.log('Connecting to:', serverUri, moduleName, spectating ? '(spectating)' : '');
+  rememberServer({ server: serverUri, module: moduleName });
+  // Callbacks from a connection we already replaced (reconnect) are ignored
+  const thisConn: DbConnection = getDataSource(serverUri)(serverUri, moduleName, savedToken, {
+    onConnect: (_conn, identity, token) => {
+      if (conn !== thisConn) return;
+      everConnected = true;
       myIdentity = identity;
       myToken = token;
-      localStorage.setItem('clawworld_token', token);
+      // Never overwrite our own token with the observed agent's one
+      if (!spectating) storeProfileToken(token);
       console.log('Connected as', identity.toHexString());
       setupCallbacks();
+      subscribeRules(_conn);
+      subscribeAgents(_conn);
 
       // Subscribe to views (per-client filtered data) + leaderboard (public)
       _conn.subscriptionBuilder()
         .onApplied(() => {
+          if (conn !== thisConn) return;
           console.log('Subscribed to views');
+          subscribed = true;
+          reconnectAttempt = 0;
+          reconnectBanner.style.display = 'none';
           // NOTE: Don't hide loading screen here - it's hidden in render() when tiles are available
           // This prevents grey screen flash while chunks are being generated
 
@@ -130,15 +580,25 @@ function connect() {
             }
           }
 
+          if (spectating) {
+            if (!foundAgent) {
+              console.log('No agent found for observed token - leaving spectator mode');
+              alert('No living agent found for this token.');
+              stopObserving();
+              return;
+            }
+            const quitBtn = document.getElementById('quit-btn');
+            if (quitBtn) quitBtn.style.display = 'block';
+            startRenderLoop();
+            return;
+          }
+
           // Check if user previously quit to menu (don't auto-resume)
           const quitToMenu = localStorage.getItem('clawworld_quit_to_menu') === 'true';
 
-          // Auto-clear stale token: connected with saved token but no agent exists
-          // This happens when agent died and token is from previous session
-          if (!foundAgent && savedToken) {
-            console.log('No agent found with saved token - clearing token for fresh start');
-            localStorage.removeItem('clawworld_token');
-          }
+          // No agent for this identity (it died): the profile keeps its token,
+          // registering again from the menu reuses the same identity
+          if (!foundAgent && savedToken) console.log('No agent found for profile', getActiveProfile()?.name);
 
           // Show welcome modal if no agent OR user quit to menu
           if (!foundAgent || quitToMenu) {
@@ -157,30 +617,118 @@ function connect() {
             if (controlsHelp) controlsHelp.style.display = 'block';
           }
 
-          render();
+          startRenderLoop();
         })
-        .subscribe([
-          'SELECT * FROM my_agent',
-          'SELECT * FROM nearby_tiles',
-          'SELECT * FROM nearby_items',
-          'SELECT * FROM nearby_agents',
-          'SELECT * FROM nearby_messages',
-          'SELECT * FROM leaderboard'
-        ]);
-    })
-    .onDisconnect(() => { console.log('Disconnected'); })
-    .onConnectError((e) => {
+        .subscribe(SUBSCRIPTION_QUERIES);
+    },
+    onDisconnect: () => {
+      if (conn !== thisConn) return; // Intentional (reconnect/switch)
+      console.log('Disconnected');
+      subscribed = false;
+      scheduleReconnect();
+    },
+    onConnectError: (e) => {
+      if (conn !== thisConn) return;
       console.error('Connect error:', e);
-      // Auto-clear stale token on connection failure
-      // This handles cases where the server was restarted with a fresh database
-      if (savedToken) {
-        console.log('Connection failed with saved token, clearing token and retrying...');
-        localStorage.removeItem('clawworld_token');
-        // Retry connection without the stale token
-        setTimeout(() => connect(), 1000);
+      subscribed = false;
+      // Bad observe token: drop it and fall back to our own identity
+      if (observeToken) {
+        console.log('Connection failed with observed token, leaving spectator mode...');
+        alert('Could not connect with this token.');
+        stopObserving();
+        return;
       }
-    })
-    .build();
+      // Token rejected, e.g. the server was restarted with a fresh database
+      // Only on first load - a failure after we were connected is the network, not the token
+      // Asked once: the old profile is kept either way, Cancel just keeps retrying
+      if (savedToken && !everConnected && !tokenFailurePrompted) {
+        tokenFailurePrompted = true;
+        const profile = getActiveProfile();
+        if (profile && confirm(`Could not connect as profile "${profile.name}". Its token may not exist on this server anymore.\n\nStart a new identity? The old profile stays in the profile manager.`)) {
+          setActiveProfile(createProfile(nextProfileName()).id);
+          setTimeout(() => { if (conn === thisConn) reconnect(false); }, 1000);
+          return;
+        }
+      }
+      scheduleReconnect();
+    },
+  });
+  conn = thisConn;
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer) return;
+  const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** reconnectAttempt);
+  reconnectAttempt++;
+  console.log(`Reconnecting in ${delay}ms (attempt ${reconnectAttempt})`);
+  reconnectBanner.textContent = `Connection lost — reconnecting (attempt ${reconnectAttempt})…`;
+  reconnectBanner.style.display = 'block';
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    reconnect(false);
+  }, delay);
+}
+
+// Network came back - don't sit out the rest of the backoff
+window.addEventListener('online', () => {
+  if (!reconnectTimer) return;
+  clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  reconnect(false);
+});
+
+// Drop the current connection and all per-connection state, then connect again.
+// identityChanged (spectate on/off): also clear history panels and show the loading screen.
+function reconnect(identityChanged = true) {
+  resetClientState(identityChanged);
+  connect();
+}
+
+// Drop the connection and everything derived from its cache
+function resetClientState(identityChanged: boolean) {
+  if (reconnectTimer) { clearTimeout(reconnectTimer); reconnectTimer = null; }
+  recordCacheReset();
+  const oldConn = conn;
+  conn = null; // Before disconnect() so its onDisconnect is treated as intentional
+  oldConn?.disconnect();
+  subscribed = false;
+  myIdentity = null;
+  myToken = null;
+  myAgentCache = null;
+  playing = false;
+  useMode = false;
+  deathFrameCount = 0;
+  loadedChunks.clear();
+  floatingMessages.length = 0;
+  minimapTerrainStale = true;
+  clearChunkCache();
+  agentMotions.clear();
+  clearLeaderboard();
+  clearAgentProfiles();
+  walk = null;
+  hud.style.display = 'none';
+  if (identityChanged) {
+    clearEventFeed();
+    clearChatHistory();
+    const loadingScreen = document.getElementById('loading-screen');
+    if (loadingScreen) loadingScreen.style.display = 'flex';
+  }
+}
+
+// ============================================================
+// Spectator mode (observe an AI agent through its token)
+// ============================================================
+function observeAgent(token: string) {
+  saveToken('clawworld_observe_token', token);
+  reconnect();
+}
+
+function stopObserving() {
+  if (!loadToken('clawworld_observe_token')) return;
+  clearToken('clawworld_observe_token');
+  // Return to the menu instead of auto-resuming our own agent
+  localStorage.setItem('clawworld_quit_to_menu', 'true');
+  reconnect();
 }
 
 // ============================================================
@@ -208,7 +756,8 @@ function getInventory() {
 // Chunk loading
 // ============================================================
 function ensureChunksLoaded(centerX: number, centerY: number) {
-  if (!conn) return;
+  // Not while reconnecting - requests would be lost but still marked as loaded
+  if (!conn || !subscribed) return;
   const cx = Math.floor(centerX / CHUNK_SIZE);
   const cy = Math.floor(centerY / CHUNK_SIZE);
   // Load 9x9 chunks (radius 4) to ensure world is always visible when zoomed out
@@ -225,126 +774,848 @@ function ensureChunksLoaded(centerX: number, centerY: number) {
 }
 
 // ============================================================
-// Rendering
+// Item appearance registry (world canvas, HUD icons, labels)
 // ============================================================
-function render() {
-  canvas.width = window.innerWidth;
-  canvas.height = window.innerHeight;
-  ctx2d.clearRect(0, 0, canvas.width, canvas.height);
-
-  if (!conn) return;
-
-  // Poll my_agent view (fallback for view callback issues)
-  checkMyAgentFromView();
+type ItemDraw = (ctx: CanvasRenderingContext2D, cx: number, cy: number, tags: ParsedTags) => void;
+type ItemAppearance = {
+  match: (tags: ParsedTags) => boolean;
+  draw: ItemDraw;
+  name?: string; // Display name override (labels, tooltips); defaults to the name: tag
+};
 
-  const agent = getMyAgent();
-  if (agent && playing) {
-    camX = agent.x * TILE_SIZE + TILE_SIZE / 2;
-    camY = agent.y * TILE_SIZE + TILE_SIZE / 2;
-    ensureChunksLoaded(agent.x, agent.y);
-  } else {
-    // Not playing or no agent - show world around origin (0,0)
-    // This makes the welcome screen show world activity in the background
-    camX = 0;
-    camY = 0;
-    ensureChunksLoaded(0, 0);
-  }
+// Data-table entry for items that don't need hand-written drawing code
+type ItemShape = {
+  tag: string; // e.g. 'name:shield'
+  shape: 'circle' | 'square' | 'diamond' | 'triangle' | 'bar';
+  color: string;
+  accent?: string; // Inner highlight
+  size?: number; // Half-size in px (default 6)
+  name?: string;
+};
 
-  // Hide loading screen once we have tiles to render (prevents grey flash)
-  const loadingScreen = document.getElementById('loading-screen');
-  if (loadingScreen && loadingScreen.style.display !== 'none') {
-    let hasTiles = false;
-    for (const _ of conn.db.nearbyTiles.iter()) { hasTiles = true; break; }
-    if (hasTiles) {
-      loadingScreen.style.display = 'none';
-    }
-  }
+type TagMatch = string | ((tags: ParsedTags) => boolean); // Tag that must be present, or predicate
 
-  ctx2d.save();
-  ctx2d.translate(canvas.width / 2, canvas.height / 2);
-  ctx2d.scale(zoom, zoom);
-  ctx2d.translate(-camX, -camY);
+function toTagPredicate(match: TagMatch): (tags: ParsedTags) => boolean {
+  return typeof match === 'string' ? (tags: ParsedTags) => tags.has(match) : match;
+}
 
-  // Visible bounds
-  const halfW = canvas.width / 2 / zoom;
-  const halfH = canvas.height / 2 / zoom;
-  const minTX = Math.floor((camX - halfW) / TILE_SIZE) - 1;
-  const maxTX = Math.ceil((camX + halfW) / TILE_SIZE) + 1;
-  const minTY = Math.floor((camY - halfH) / TILE_SIZE) - 1;
-  const maxTY = Math.ceil((camY + halfH) / TILE_SIZE) + 1;
+// Registered entries go in front of the built-ins so they can override them
+function registerItemAppearance(match: TagMatch, draw: ItemDraw, name?: string) {
+  itemAppearances.unshift({ match: toTagPredicate(match), draw, name });
+  iconCache.clear(); // Icons are cached per tag string
+}
 
-  // Draw tiles from nearby_tiles view (visibility-filtered)
-  for (const tile of conn.db.nearbyTiles.iter()) {
-    if (tile.x < minTX || tile.x > maxTX || tile.y < minTY || tile.y > maxTY) continue;
-    const tags = parseTags(tile.tags);
-    let color = '#333';
-    if (tags.has('surface:grass')) color = COLORS.grass;
-    else if (tags.has('surface:dirt')) color = COLORS.dirt;
-    else if (tags.has('surface:stone')) color = COLORS.stone;
-    else if (tags.has('surface:water')) color = COLORS.water;
+function registerItemShapes(table: ItemShape[]) {
+  itemAppearances.unshift(...table.map(shapeAppearance));
+  iconCache.clear();
+}
 
-    ctx2d.fillStyle = color;
-    ctx2d.fillRect(tile.x * TILE_SIZE, tile.y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
-    ctx2d.strokeStyle = 'rgba(0,0,0,0.1)';
-    ctx2d.strokeRect(tile.x * TILE_SIZE, tile.y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
-  }
+function shapeAppearance(entry: ItemShape): ItemAppearance {
+  return { match: toTagPredicate(entry.tag), draw: (ctx, cx, cy) => drawItemShape(ctx, cx, cy, entry), name: entry.name };
+}
 
-  // Fog of war removed - server already filters visibility via views
+function getItemAppearance(tags: ParsedTags): ItemAppearance {
+  return itemAppearances.find(a => a.match(tags)) ?? FALLBACK_APPEARANCE;
+}
 
-  // Draw ground items from nearby_items view (grouped by position for stack offset)
-  const groundItems: any[] = [];
-  for (const item of conn.db.nearbyItems.iter()) {
-    if (item.carrier) continue;
-    if (item.x < minTX || item.x > maxTX || item.y < minTY || item.y > maxTY) continue;
-    groundItems.push(item);
-  }
+function getItemDisplayName(tags: ParsedTags): string {
+  return getItemAppearance(tags).name ?? tags.name ?? '?';
+}
 
-  // Group items by position
-  const itemStacks = new Map<string, any[]>();
-  for (const item of groundItems) {
-    const key = `${item.x},${item.y}`;
-    if (!itemStacks.has(key)) itemStacks.set(key, []);
-    itemStacks.get(key)!.push(item);
+function drawItemShape(ctx: CanvasRenderingContext2D, cx: number, cy: number, s: ItemShape) {
+  const r = s.size ?? 6;
+  ctx.fillStyle = s.color;
+  ctx.beginPath();
+  if (s.shape === 'circle') ctx.arc(cx, cy, r, 0, Math.PI * 2);
+  else if (s.shape === 'square') ctx.rect(cx - r, cy - r, r * 2, r * 2);
+  else if (s.shape === 'bar') ctx.rect(cx - r, cy - r / 3, r * 2, r * 2 / 3);
+  else if (s.shape === 'diamond') {
+    ctx.moveTo(cx, cy - r); ctx.lineTo(cx + r, cy); ctx.lineTo(cx, cy + r); ctx.lineTo(cx - r, cy);
+    ctx.closePath();
+  } else {
+    ctx.moveTo(cx, cy - r); ctx.lineTo(cx + r, cy + r); ctx.lineTo(cx - r, cy + r);
+    ctx.closePath();
   }
-
-  // Sort each stack by ID (lower ID = bottom of stack, drawn first)
-  for (const [_, stack] of itemStacks) {
-    stack.sort((a, b) => Number(a.id) - Number(b.id));
+  ctx.fill();
+  if (s.accent) {
+    ctx.fillStyle = s.accent;
+    ctx.beginPath();
+    ctx.arc(cx, cy, r / 3, 0, Math.PI * 2);
+    ctx.fill();
   }
+}
 
-  // Draw stacks with offset
-  for (const [_, stack] of itemStacks) {
-    for (let i = 0; i < stack.length; i++) {
-      drawItem(stack[i], i, stack.length);
+// Unknown items: coloured disc with the name's initial (colour derived from the name)
+const FALLBACK_APPEARANCE: ItemAppearance = {
+  match: () => true,
+  draw: (ctx, cx, cy, tags) => {
+    const name = tags.name;
+    if (!name) {
+      ctx.fillStyle = '#ffff00';
+      ctx.font = '12px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText('?', cx, cy + 4);
+      return;
     }
-  }
+    let hash = 0;
+    for (let i = 0; i < name.length; i++) hash = (hash * 31 + name.charCodeAt(i)) | 0;
+    ctx.fillStyle = `hsl(${Math.abs(hash) % 360}, 50%, 45%)`;
+    ctx.beginPath();
+    ctx.arc(cx, cy, 7, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = 'white';
+    ctx.font = 'bold 9px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(name[0].toUpperCase(), cx, cy + 3);
+  },
+};
 
-  // Draw my agent from my_agent view
-  for (const a of conn.db.myAgent.iter()) {
-    if (a && a.x >= minTX && a.x <= maxTX && a.y >= minTY && a.y <= maxTY) {
-      drawAgent(a);
+// Built-in items (hand-drawn)
+const BUILTIN_ITEM_APPEARANCES: [TagMatch, ItemDraw][] = [
+  ['name:tree', (ctx, cx, cy) => {
+    // Dark green circle
+    ctx.fillStyle = '#2d5a1e';
+    ctx.beginPath();
+    ctx.arc(cx, cy - 4, 10, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#5c3a1e';
+    ctx.fillRect(cx - 2, cy + 2, 4, 10);
+  }],
+  ['name:berry_bush', (ctx, cx, cy, tags) => {
+    ctx.fillStyle = '#3a8a2e';
+    ctx.beginPath();
+    ctx.arc(cx, cy, 8, 0, Math.PI * 2);
+    ctx.fill();
+    if (tags.harvestable) {
+      // Red dots
+      for (const [ox, oy] of [[-3,-3],[3,-2],[0,3],[4,1]]) {
+        ctx.fillStyle = '#cc2222';
+        ctx.beginPath();
+        ctx.arc(cx + ox, cy + oy, 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
     }
-  }
-
-  // Draw nearby agents from nearby_agents view
-  for (const a of conn.db.nearbyAgents.iter()) {
-    if (a.x < minTX || a.x > maxTX || a.y < minTY || a.y > maxTY) continue;
-    drawAgent(a);
-  }
-
-  // Draw floating messages
-  const now = Date.now();
-  for (let i = floatingMessages.length - 1; i >= 0; i--) {
-    const msg = floatingMessages[i];
-    const age = now - msg.time;
-    if (age > MESSAGE_DURATION_MS) { floatingMessages.splice(i, 1); continue; }
-    const alpha = Math.max(0, 1 - age / MESSAGE_DURATION_MS);
-    ctx2d.globalAlpha = alpha;
-    ctx2d.fillStyle = 'white';
-    ctx2d.strokeStyle = 'black';
-    ctx2d.lineWidth = 2;
-    ctx2d.font = '12px monospace';
-    ctx2d.textAlign = 'center';
+  }],
+  ['name:sword', (ctx, cx, cy) => {
+    ctx.fillStyle = '#c0c0c0';
+    ctx.fillRect(cx - 1, cy - 8, 3, 16);
+    ctx.fillStyle = '#8b6914';
+    ctx.fillRect(cx - 4, cy + 4, 9, 3);
+  }],
+  ['name:axe', (ctx, cx, cy) => {
+    ctx.fillStyle = '#8b6914';
+    ctx.fillRect(cx - 1, cy - 6, 3, 14);
+    ctx.fillStyle = '#808080';
+    ctx.fillRect(cx + 2, cy - 6, 6, 8);
+  }],
+  ['name:berries', (ctx, cx, cy) => {
+    ctx.fillStyle = '#cc2222';
+    ctx.beginPath();
+    ctx.arc(cx, cy, 4, 0, Math.PI * 2);
+    ctx.fill();
+  }],
+  ['name:wood', (ctx, cx, cy) => {
+    ctx.fillStyle = '#8b6914';
+    ctx.fillRect(cx - 6, cy - 2, 12, 5);
+  }],
+  ['name:pickaxe', (ctx, cx, cy) => {
+    // Pickaxe: brown handle + gray head
+    ctx.fillStyle = '#8b6914';
+    ctx.fillRect(cx - 1, cy - 6, 3, 14);
+    ctx.fillStyle = '#606060';
+    ctx.beginPath();
+    ctx.moveTo(cx - 6, cy - 6);
+    ctx.lineTo(cx + 6, cy - 6);
+    ctx.lineTo(cx + 4, cy - 2);
+    ctx.lineTo(cx - 4, cy - 2);
+    ctx.closePath();
+    ctx.fill();
+  }],
+  ['name:flint_steel', (ctx, cx, cy) => {
+    // Flint + steel: gray flint + dark metal
+    ctx.fillStyle = '#505050';
+    ctx.fillRect(cx - 5, cy - 2, 6, 5);
+    ctx.fillStyle = '#333';
+    ctx.fillRect(cx + 1, cy - 3, 4, 7);
+  }],
+  ['name:bandage', (ctx, cx, cy) => {
+    // Bandage: white roll with red cross
+    ctx.fillStyle = '#f0f0f0';
+    ctx.fillRect(cx - 5, cy - 4, 10, 8);
+    ctx.fillStyle = '#cc2222';
+    ctx.fillRect(cx - 1, cy - 3, 2, 6);
+    ctx.fillRect(cx - 3, cy - 1, 6, 2);
+  }],
+  ['name:torch', (ctx, cx, cy, tags) => {
+    // Torch: brown stick, optionally with flame
+    ctx.fillStyle = '#6b4423';
+    ctx.fillRect(cx - 2, cy - 2, 4, 10);
+    if (tags.lit) {
+      // Flame
+      ctx.fillStyle = '#ff6600';
+      ctx.beginPath();
+      ctx.moveTo(cx, cy - 8);
+      ctx.lineTo(cx - 4, cy - 2);
+      ctx.lineTo(cx + 4, cy - 2);
+      ctx.closePath();
+      ctx.fill();
+      ctx.fillStyle = '#ffcc00';
+      ctx.beginPath();
+      ctx.arc(cx, cy - 4, 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }],
+  ['name:poison_mushroom', (ctx, cx, cy) => {
+    // Poison mushroom: purple cap with white spots
+    ctx.fillStyle = '#6a0dad';
+    ctx.beginPath();
+    ctx.arc(cx, cy - 2, 7, Math.PI, 0);
+    ctx.fill();
+    ctx.fillStyle = '#e0e0e0';
+    ctx.fillRect(cx - 2, cy - 2, 4, 8);
+    // White spots
+    ctx.fillStyle = 'white';
+    ctx.beginPath(); ctx.arc(cx - 3, cy - 5, 1.5, 0, Math.PI * 2); ctx.fill();
+    ctx.beginPath(); ctx.arc(cx + 2, cy - 4, 1.5, 0, Math.PI * 2); ctx.fill();
+  }],
+  ['name:rock', (ctx, cx, cy) => {
+    // Rock: large gray boulder
+    ctx.fillStyle = '#707070';
+    ctx.beginPath();
+    ctx.ellipse(cx, cy, 10, 8, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#505050';
+    ctx.beginPath();
+    ctx.ellipse(cx + 2, cy + 2, 6, 4, 0.3, 0, Math.PI * 2);
+    ctx.fill();
+  }],
+  ['name:stone', (ctx, cx, cy) => {
+    // Stone (mined): small gray rock
+    ctx.fillStyle = '#808080';
+    ctx.beginPath();
+    ctx.ellipse(cx, cy, 5, 4, 0, 0, Math.PI * 2);
+    ctx.fill();
+  }],
+  ['name:wall', (ctx, cx, cy) => {
+    // Wall: brick pattern
+    ctx.fillStyle = '#8b4513';
+    ctx.fillRect(cx - 10, cy - 10, 20, 20);
+    ctx.strokeStyle = '#5a2d0a';
+    ctx.lineWidth = 1;
+    // Brick lines
+    ctx.beginPath();
+    ctx.moveTo(cx - 10, cy - 3); ctx.lineTo(cx + 10, cy - 3);
+    ctx.moveTo(cx - 10, cy + 4); ctx.lineTo(cx + 10, cy + 4);
+    ctx.moveTo(cx, cy - 10); ctx.lineTo(cx, cy - 3);
+    ctx.moveTo(cx - 5, cy - 3); ctx.lineTo(cx - 5, cy + 4);
+    ctx.moveTo(cx + 5, cy - 3); ctx.lineTo(cx + 5, cy + 4);
+    ctx.moveTo(cx, cy + 4); ctx.lineTo(cx, cy + 10);
+    ctx.stroke();
+  }],
+  ['name:wall_kit', (ctx, cx, cy) => {
+    // Wall kit: small brick icon
+    ctx.fillStyle = '#a0522d';
+    ctx.fillRect(cx - 5, cy - 4, 10, 8);
+    ctx.strokeStyle = '#5a2d0a';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(cx - 5, cy - 4, 10, 8);
+    ctx.beginPath();
+    ctx.moveTo(cx - 5, cy); ctx.lineTo(cx + 5, cy);
+    ctx.moveTo(cx, cy - 4); ctx.lineTo(cx, cy);
+    ctx.stroke();
+  }],
+  [(tags) => tags.name === 'fire' || tags.burning, (ctx, cx, cy) => {
+    // Fire: animated flame
+    ctx.fillStyle = '#ff4400';
+    ctx.beginPath();
+    ctx.moveTo(cx, cy - 10);
+    ctx.quadraticCurveTo(cx - 8, cy, cx - 5, cy + 6);
+    ctx.lineTo(cx + 5, cy + 6);
+    ctx.quadraticCurveTo(cx + 8, cy, cx, cy - 10);
+    ctx.fill();
+    ctx.fillStyle = '#ffcc00';
+    ctx.beginPath();
+    ctx.moveTo(cx, cy - 5);
+    ctx.quadraticCurveTo(cx - 4, cy + 2, cx - 2, cy + 4);
+    ctx.lineTo(cx + 2, cy + 4);
+    ctx.quadraticCurveTo(cx + 4, cy + 2, cx, cy - 5);
+    ctx.fill();
+  }],
+];
+
+// New server items that only need a simple shape - no drawing code required.
+// e.g. { tag: 'name:shield', shape: 'circle', color: '#888', accent: '#ccc' }
+const ITEM_SHAPES: ItemShape[] = [];
+
+// First match wins
+const itemAppearances: ItemAppearance[] = [
+  ...ITEM_SHAPES.map(shapeAppearance),
+  ...BUILTIN_ITEM_APPEARANCES.map(([match, draw]) => ({ match: toTagPredicate(match), draw })),
+];
+
+// ============================================================
+// Sprite assets (optional atlas + JSON manifest, procedural fallback)
+// ============================================================
+// Manifest format (image path is relative to the manifest):
+// {
+//   "image": "atlas.png",
+//   "frames": { "grass": { "x": 0, "y": 0, "w": 32, "h": 32 }, ... },
+//   "tiles":  [{ "tags": ["surface:grass"], "frame": "grass" }],
+//   "items":  [{ "tags": ["name:torch", "lit"], "frame": "torch_lit" }, { "tags": ["name:torch"], "frame": "torch" }],
+//   "agents": [{ "tags": [], "frame": "crab" }]
+// }
+// A rule matches when every listed tag is present ("!tag" = must be absent); first match wins.
+// Anything without a matching rule or frame keeps its procedural drawing.
+type SpriteFrame = { x: number; y: number; w: number; h: number };
+type SpriteRule = { tags: string[]; frame: string };
+type SpriteManifest = {
+  image: string;
+  frames: Record<string, SpriteFrame>;
+  tiles?: SpriteRule[];
+  items?: SpriteRule[];
+  agents?: SpriteRule[];
+};
+type CompiledSpriteRule = { match: (tags: ParsedTags) => boolean; frame: SpriteFrame };
+
+let spriteAtlas: HTMLImageElement | null = null;
+let tileSpriteRules: CompiledSpriteRule[] = [];
+let agentSpriteRules: CompiledSpriteRule[] = [];
+const tileSpriteCache = new Map<string, SpriteFrame | null>(); // Per tag string - tiles are drawn every frame
+
+async function loadSpriteAssets(manifestUrl: string) {
+  try {
+    const baseUrl = new URL(manifestUrl, window.location.href);
+    const res = await fetch(baseUrl.href);
+    if (!res.ok) throw new Error(`manifest HTTP ${res.status}`);
+    const manifest: SpriteManifest = await res.json();
+
+    const img = new Image();
+    img.crossOrigin = 'anonymous'; // Keeps HUD icon canvases exportable (toDataURL)
+    img.src = new URL(manifest.image, baseUrl).href;
+    await img.decode();
+
+    spriteAtlas = img;
+    tileSpriteRules = compileSpriteRules(manifest.tiles ?? [], manifest.frames);
+    agentSpriteRules = compileSpriteRules(manifest.agents ?? [], manifest.frames);
+    tileSpriteCache.clear();
+    invalidateAllChunks();
+    // Items go through the appearance registry (in reverse so manifest order keeps priority)
+    const itemRules = compileSpriteRules(manifest.items ?? [], manifest.frames);
+    for (const rule of itemRules.reverse()) {
+      registerItemAppearance(rule.match, (ctx, cx, cy) => drawSpriteFrame(ctx, rule.frame, cx, cy));
+    }
+    console.log(`Loaded sprite assets: ${tileSpriteRules.length} tile, ${itemRules.length} item, ${agentSpriteRules.length} agent rules`);
+  } catch (e) {
+    console.warn('Sprite assets unavailable, using procedural drawing:', e);
+  }
+}
+
+function compileSpriteRules(rules: SpriteRule[], frames: Record<string, SpriteFrame>): CompiledSpriteRule[] {
+  const compiled: CompiledSpriteRule[] = [];
+  for (const rule of rules) {
+    const frame = frames[rule.frame];
+    if (!frame) { console.warn('Sprite manifest: missing frame', rule.frame); continue; }
+    const required = rule.tags.filter(t => !t.startsWith('!'));
+    const excluded = rule.tags.filter(t => t.startsWith('!')).map(t => t.substring(1));
+    compiled.push({
+      match: (tags) => required.every(t => tags.has(t)) && !excluded.some(t => tags.has(t)),
+      frame,
+    });
+  }
+  return compiled;
+}
+
+function getTileSprite(tags: string): SpriteFrame | null {
+  if (!spriteAtlas || tileSpriteRules.length === 0) return null;
+  let frame = tileSpriteCache.get(tags);
+  if (frame === undefined) {
+    const m = tagsOf(tags);
+    frame = tileSpriteRules.find(r => r.match(m))?.frame ?? null;
+    tileSpriteCache.set(tags, frame);
+  }
+  return frame;
+}
+
+function getAgentSprite(tags: string): SpriteFrame | null {
+  if (!spriteAtlas || agentSpriteRules.length === 0) return null;
+  return agentSpriteRules.find(r => r.match(tagsOf(tags)))?.frame ?? null;
+}
+
+// Draw a frame centred on (cx, cy), at its native size unless w/h given
+function drawSpriteFrame(ctx: CanvasRenderingContext2D, f: SpriteFrame, cx: number, cy: number, w = f.w, h = f.h) {
+  if (!spriteAtlas) return;
+  ctx.drawImage(spriteAtlas, f.x, f.y, f.w, f.h, cx - w / 2, cy - h / 2, w, h);
+}
+
+// ============================================================
+// Chunk render cache (tiles pre-rendered per CHUNK_SIZE x CHUNK_SIZE chunk)
+// ============================================================
+type ChunkCache = { tiles: Map<string, any>; canvas: HTMLCanvasElement | null; dirty: boolean };
+const chunkCaches = new Map<string, ChunkCache>(); // Keyed "cx,cy", maintained from nearby_tiles callbacks
+
+function chunkKeyOf(tile: any): string {
+  return `${Math.floor(tile.x / CHUNK_SIZE)},${Math.floor(tile.y / CHUNK_SIZE)}`;
+}
+
+function indexChunkTile(tile: any) {
+  const key = chunkKeyOf(tile);
+  let chunk = chunkCaches.get(key);
+  if (!chunk) {
+    chunk = { tiles: new Map(), canvas: null, dirty: true };
+    chunkCaches.set(key, chunk);
+  }
+  chunk.tiles.set(tile.id.toString(), tile);
+  chunk.dirty = true;
+}
+
+function unindexChunkTile(tile: any) {
+  const key = chunkKeyOf(tile);
+  const chunk = chunkCaches.get(key);
+  if (!chunk) return;
+  chunk.tiles.delete(tile.id.toString());
+  chunk.dirty = true;
+  if (chunk.tiles.size === 0) chunkCaches.delete(key); // Frees the canvas too
+}
+
+// View re-evaluation deletes and re-inserts unchanged rows. Deletes are held until the
+// next frame so an identical re-insert leaves the chunk canvas and minimap alone.
+const pendingTileDeletes = new Map<string, any>(); // Tile id -> deleted row
+const pendingItemDeletes = new Map<string, any>(); // Item id -> deleted row
+
+function sameTile(a: any, b: any): boolean {
+  return a.x === b.x && a.y === b.y && a.tags === b.tags;
+}
+
+function sameItem(a: any, b: any): boolean {
+  const carrier = (i: any) => i.carrier?.toHexString?.() ?? '';
+  return a.x === b.x && a.y === b.y && a.tags === b.tags && carrier(a) === carrier(b);
+}
+
+function onViewTileInsert(tile: any) {
+  const key = tile.id.toString();
+  const old = pendingTileDeletes.get(key);
+  if (old) {
+    pendingTileDeletes.delete(key);
+    if (sameTile(old, tile)) {
+      // Keep the fresh row object without marking the chunk dirty
+      chunkCaches.get(chunkKeyOf(tile))?.tiles.set(key, tile);
+      return;
+    }
+    unindexChunkTile(old);
+    minimapTerrainStale = true;
+  }
+  indexChunkTile(tile);
+  paintMinimapTile(tile);
+}
+
+function onViewItemInsert(item: any) {
+  const key = item.id.toString();
+  const old = pendingItemDeletes.get(key);
+  pendingItemDeletes.delete(key);
+  if (!old || !sameItem(old, item)) minimapDirty = true;
+}
+
+// Rows deleted and not re-inserted since the last frame are really gone
+function flushViewDeletes() {
+  if (pendingTileDeletes.size > 0) {
+    for (const tile of pendingTileDeletes.values()) unindexChunkTile(tile);
+    pendingTileDeletes.clear();
+    minimapTerrainStale = true;
+  }
+  if (pendingItemDeletes.size > 0) {
+    pendingItemDeletes.clear();
+    minimapDirty = true;
+  }
+}
+
+function invalidateAllChunks() {
+  for (const chunk of chunkCaches.values()) chunk.dirty = true;
+}
+
+function clearChunkCache() {
+  chunkCaches.clear();
+  pendingTileDeletes.clear();
+  pendingItemDeletes.clear();
+}
+
+// Chunk canvas for blitting, re-rendered only if its tiles changed since last time
+function getChunkCanvas(cx: number, cy: number): HTMLCanvasElement | null {
+  const chunk = chunkCaches.get(`${cx},${cy}`);
+  if (!chunk) return null;
+  if (!chunk.dirty && chunk.canvas) return chunk.canvas;
+
+  if (!chunk.canvas) {
+    chunk.canvas = document.createElement('canvas');
+    chunk.canvas.width = chunk.canvas.height = CHUNK_SIZE * TILE_SIZE;
+  }
+  const cctx = chunk.canvas.getContext('2d')!;
+  cctx.clearRect(0, 0, chunk.canvas.width, chunk.canvas.height);
+  const originX = cx * CHUNK_SIZE, originY = cy * CHUNK_SIZE;
+  for (const tile of chunk.tiles.values()) {
+    const px = (tile.x - originX) * TILE_SIZE;
+    const py = (tile.y - originY) * TILE_SIZE;
+    const sprite = getTileSprite(tile.tags);
+    if (sprite) {
+      drawSpriteFrame(cctx, sprite, px + TILE_SIZE / 2, py + TILE_SIZE / 2, TILE_SIZE, TILE_SIZE);
+    } else {
+      cctx.fillStyle = getTileColor(tile.tags);
+      cctx.fillRect(px, py, TILE_SIZE, TILE_SIZE);
+    }
+    cctx.strokeStyle = 'rgba(0,0,0,0.1)';
+    cctx.strokeRect(px, py, TILE_SIZE, TILE_SIZE);
+  }
+  chunk.dirty = false;
+  return chunk.canvas;
+}
+
+// ============================================================
+// Agent motion (tweening between tiles, action animations, camera easing)
+// ============================================================
+const ACTION_INTERVAL_MS = 500; // Server action cooldown (0.5s); moves are tweened over it
+const ATTACK_ANIM_MS = 250;
+const EAT_ANIM_MS = 400;
+const CAMERA_EASE_MS = 120; // Time constant of the camera follow
+const SNAP_DISTANCE_TILES = 8; // Longer jumps (respawn, teleport) snap instead of tweening
+const MOTION_PRUNE_MS = 10000; // Forget agents not drawn for this long
+
+type AgentMotion = {
+  fromX: number; fromY: number; toX: number; toY: number; moveStart: number;
+  facingX: number; facingY: number; // Last move direction, used by the attack lunge
+  lastActionAt: number; satiety: number;
+  anim: 'attack' | 'eat' | null; animStart: number;
+  seenAt: number;
+};
+const agentMotions = new Map<string, AgentMotion>(); // By identity
+let lastMotionPrune = 0;
+let lastFrameAt = 0;
+
+// Sync tween/animation state with the agent row; called every frame it's drawn
+function updateAgentMotion(a: any, now: number): AgentMotion {
+  const key = a.identity?.toHexString?.() ?? a.name;
+  const lastActionAt = Number(a.lastActionAt);
+  const satiety = tagsOf(a.tags).satiety;
+  let m = agentMotions.get(key);
+  if (!m) {
+    m = {
+      fromX: a.x, fromY: a.y, toX: a.x, toY: a.y, moveStart: 0,
+      facingX: 0, facingY: 1, lastActionAt, satiety,
+      anim: null, animStart: 0, seenAt: now,
+    };
+    agentMotions.set(key, m);
+    return m;
+  }
+  m.seenAt = now;
+
+  if (a.x !== m.toX || a.y !== m.toY) {
+    const far = Math.abs(a.x - m.toX) + Math.abs(a.y - m.toY) > SNAP_DISTANCE_TILES;
+    const [px, py] = far ? [a.x, a.y] : motionPosition(m, now);
+    m.facingX = Math.sign(a.x - m.toX);
+    m.facingY = Math.sign(a.y - m.toY);
+    m.fromX = px; m.fromY = py;
+    m.toX = a.x; m.toY = a.y;
+    m.moveStart = now;
+  } else if (lastActionAt > m.lastActionAt) {
+    // Acted in place: eating raises satiety, anything else is shown as a claw strike
+    m.anim = satiety > m.satiety ? 'eat' : 'attack';
+    m.animStart = now;
+  }
+  m.lastActionAt = lastActionAt;
+  m.satiety = satiety;
+  return m;
+}
+
+// Interpolated tile position (ease-out over the action interval)
+function motionPosition(m: AgentMotion, now: number): [number, number] {
+  const t = Math.min(1, Math.max(0, (now - m.moveStart) / ACTION_INTERVAL_MS));
+  const e = t * (2 - t);
+  return [m.fromX + (m.toX - m.fromX) * e, m.fromY + (m.toY - m.fromY) * e];
+}
+
+function pruneAgentMotions(now: number) {
+  if (now - lastMotionPrune < MOTION_PRUNE_MS) return;
+  lastMotionPrune = now;
+  for (const [key, m] of agentMotions) {
+    if (now - m.seenAt > MOTION_PRUNE_MS) agentMotions.delete(key);
+  }
+}
+
+// Exponential approach to the target, frame-rate independent
+function easeCamera(targetX: number, targetY: number, dt: number) {
+  if (Math.hypot(targetX - camX, targetY - camY) > SNAP_DISTANCE_TILES * TILE_SIZE) {
+    camX = targetX;
+    camY = targetY;
+    return;
+  }
+  const k = 1 - Math.exp(-dt / CAMERA_EASE_MS);
+  camX += (targetX - camX) * k;
+  camY += (targetY - camY) * k;
+}
+
+// ============================================================
+// Camera controller (follow, free roam, Tab cycling)
+// ============================================================
+const PAN_SPEED_PX = 600; // Screen pixels per second, so panning feels the same at any zoom
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+const PAN_KEYS: Record<string, [number, number]> = {
+  KeyW: [0, -1], ArrowUp: [0, -1], KeyS: [0, 1], ArrowDown: [0, 1],
+  KeyA: [-1, 0], ArrowLeft: [-1, 0], KeyD: [1, 0], ArrowRight: [1, 0],
+};
+const cameraStatus = document.getElementById('camera-status') as HTMLDivElement;
+let freeCamera = false; // Overview: camera stays where it was panned/dragged, chunks load around it
+let followTarget: string | null = null; // Identity hex of an agent picked with Tab
+const panKeysHeld = new Set<string>();
+
+// Where the camera should go this frame; null = free roam, stay put
+function resolveCameraTarget(now: number): { x: number; y: number; tileX: number; tileY: number } | null {
+  if (cameraFocus) {
+    return { x: cameraFocus.x * TILE_SIZE + TILE_SIZE / 2, y: cameraFocus.y * TILE_SIZE + TILE_SIZE / 2, tileX: cameraFocus.x, tileY: cameraFocus.y };
+  }
+  if (followTarget) {
+    const target = getVisibleAgent(followTarget);
+    if (target) {
+      const [ax, ay] = motionPosition(updateAgentMotion(target, now), now);
+      return { x: ax * TILE_SIZE + TILE_SIZE / 2, y: ay * TILE_SIZE + TILE_SIZE / 2, tileX: target.x, tileY: target.y };
+    }
+    // Walked out of our views: keep looking at where it was
+    followTarget = null;
+    freeCamera = true;
+  }
+  const agent = getMyAgent();
+  // Players can't drag or pan, so free roam only applies when not playing
+  if (agent && (playing || (spectating && !freeCamera))) {
+    // Follow the tweened position so the camera glides with the agent
+    const [ax, ay] = motionPosition(updateAgentMotion(agent, now), now);
+    return { x: ax * TILE_SIZE + TILE_SIZE / 2, y: ay * TILE_SIZE + TILE_SIZE / 2, tileX: agent.x, tileY: agent.y };
+  }
+  return null;
+}
+
+// Called every frame from render()
+function updateCamera(now: number, dt: number) {
+  if (!playing && panKeysHeld.size > 0) {
+    let dx = 0, dy = 0;
+    for (const code of panKeysHeld) { dx += PAN_KEYS[code][0]; dy += PAN_KEYS[code][1]; }
+    camX += dx * PAN_SPEED_PX * dt / 1000 / zoom;
+    camY += dy * PAN_SPEED_PX * dt / 1000 / zoom;
+  }
+  const target = resolveCameraTarget(now);
+  if (target) {
+    easeCamera(target.x, target.y, dt);
+    ensureChunksLoaded(target.tileX, target.tileY);
+  } else {
+    // Free roam / no agent: load the world around wherever the camera is
+    ensureChunksLoaded(Math.floor(camX / TILE_SIZE), Math.floor(camY / TILE_SIZE));
+  }
+  updateCameraStatus();
+}
+
+// Detach from every target: drag and keyboard panning start here
+function enterFreeCamera() {
+  freeCamera = true;
+  followTarget = null;
+  cameraFocus = null;
+}
+
+// Esc: back to our own (or the observed) agent
+function resetCamera() {
+  freeCamera = false;
+  followTarget = null;
+}
+
+// Full-screen dialogs keep Tab for focus navigation
+const MODAL_IDS = ['welcome-modal', 'settings-dialog', 'profiles-dialog', 'death-overlay'];
+function modalOpen(): boolean {
+  return MODAL_IDS.some(id => {
+    const el = document.getElementById(id);
+    return !!el && getComputedStyle(el).display !== 'none';
+  });
+}
+
+// Tab: follow the next agent in view (by name), wrapping around
+function cycleFollowTarget(step: number) {
+  if (!conn) return;
+  const myId = getMyAgent()?.identity?.toHexString?.();
+  const agents = [...conn.db.nearbyAgents.iter()]
+    .filter(a => a.identity.toHexString() !== myId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const seen = new Set<string>();
+  const unique = agents.filter(a => !seen.has(a.identity.toHexString()) && seen.add(a.identity.toHexString()));
+  if (unique.length === 0) { showToast('No other agents in view'); return; }
+  const i = unique.findIndex(a => a.identity.toHexString() === followTarget);
+  const next = unique[(i + step + unique.length) % unique.length];
+  followTarget = next.identity.toHexString();
+  cameraFocus = null;
+}
+
+function updateCameraStatus() {
+  let text = '';
+  if (followTarget) {
+    const name = getVisibleAgent(followTarget)?.name ?? '?';
+    text = `Following ${name} · Tab next · Esc back`;
+  } else if (!playing && (freeCamera || !spectating)) {
+    text = `Free camera (${Math.floor(camX / TILE_SIZE)}, ${Math.floor(camY / TILE_SIZE)})${spectating ? ' · Esc back' : ''}`;
+  }
+  if (cameraStatus.textContent !== text) {
+    cameraStatus.textContent = text;
+    cameraStatus.style.display = text ? 'block' : 'none';
+  }
+}
+
+// Keep the world point under the cursor fixed; when following, the target stays centred instead
+function zoomAt(clientX: number, clientY: number, factor: number) {
+  const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom * factor));
+  if (!resolveCameraTarget(Date.now())) {
+    const rect = canvas.getBoundingClientRect();
+    const sx = clientX - rect.left - canvas.width / 2;
+    const sy = clientY - rect.top - canvas.height / 2;
+    camX += sx / zoom - sx / newZoom;
+    camY += sy / zoom - sy / newZoom;
+  }
+  zoom = newZoom;
+}
+
+// ============================================================
+// Rendering
+// ============================================================
+let renderLoopStarted = false;
+function startRenderLoop() {
+  // Reconnects re-run onApplied - keep a single requestAnimationFrame chain
+  if (renderLoopStarted) return;
+  renderLoopStarted = true;
+  render();
+}
+
+function render() {
+  canvas.width = window.innerWidth;
+  canvas.height = window.innerHeight;
+  ctx2d.clearRect(0, 0, canvas.width, canvas.height);
+
+  if (!conn) { requestAnimationFrame(render); return; }
+
+  flushViewDeletes();
+
+  // Poll my_agent view (fallback for view callback issues)
+  checkMyAgentFromView();
+
+  const frameNow = Date.now();
+  const frameDt = lastFrameAt ? frameNow - lastFrameAt : 16;
+  lastFrameAt = frameNow;
+
+  updateReplay(frameDt);
+  updateCamera(frameNow, frameDt);
+
+  // Hide loading screen once we have tiles to render (prevents grey flash)
+  const loadingScreen = document.getElementById('loading-screen');
+  if (loadingScreen && loadingScreen.style.display !== 'none') {
+    let hasTiles = false;
+    for (const _ of conn.db.nearbyTiles.iter()) { hasTiles = true; break; }
+    if (hasTiles) {
+      loadingScreen.style.display = 'none';
+    }
+  }
+
+  ctx2d.save();
+  ctx2d.translate(canvas.width / 2, canvas.height / 2);
+  ctx2d.scale(zoom, zoom);
+  ctx2d.translate(-camX, -camY);
+
+  // Visible bounds
+  const halfW = canvas.width / 2 / zoom;
+  const halfH = canvas.height / 2 / zoom;
+  const minTX = Math.floor((camX - halfW) / TILE_SIZE) - 1;
+  const maxTX = Math.ceil((camX + halfW) / TILE_SIZE) + 1;
+  const minTY = Math.floor((camY - halfH) / TILE_SIZE) - 1;
+  const maxTY = Math.ceil((camY + halfH) / TILE_SIZE) + 1;
+
+  // Draw tiles from nearby_tiles view (visibility-filtered), one pre-rendered canvas per chunk
+  const chunkPx = CHUNK_SIZE * TILE_SIZE;
+  for (let chy = Math.floor(minTY / CHUNK_SIZE); chy <= Math.floor(maxTY / CHUNK_SIZE); chy++) {
+    for (let chx = Math.floor(minTX / CHUNK_SIZE); chx <= Math.floor(maxTX / CHUNK_SIZE); chx++) {
+      const chunkCanvas = getChunkCanvas(chx, chy);
+      if (chunkCanvas) ctx2d.drawImage(chunkCanvas, chx * chunkPx, chy * chunkPx);
+    }
+  }
+
+  // Fog of war removed - server already filters visibility via views
+
+  // Draw ground items from nearby_items view (grouped by position for stack offset)
+  const groundItems: any[] = [];
+  for (const item of conn.db.nearbyItems.iter()) {
+    if (item.carrier) continue;
+    if (item.x < minTX || item.x > maxTX || item.y < minTY || item.y > maxTY) continue;
+    groundItems.push(item);
+  }
+
+  // Group items by position
+  const itemStacks = new Map<string, any[]>();
+  for (const item of groundItems) {
+    const key = `${item.x},${item.y}`;
+    if (!itemStacks.has(key)) itemStacks.set(key, []);
+    itemStacks.get(key)!.push(item);
+  }
+
+  // Sort each stack by ID (lower ID = bottom of stack, drawn first)
+  for (const [_, stack] of itemStacks) {
+    stack.sort((a, b) => Number(a.id) - Number(b.id));
+  }
+
+  // Draw stacks with offset
+  for (const [_, stack] of itemStacks) {
+    for (let i = 0; i < stack.length; i++) {
+      drawItem(stack[i], i, stack.length);
+    }
+  }
+
+  // Draw my agent from my_agent view
+  for (const a of conn.db.myAgent.iter()) {
+    if (a && a.x >= minTX && a.x <= maxTX && a.y >= minTY && a.y <= maxTY) {
+      drawAgent(a);
+    }
+  }
+
+  // Draw nearby agents from nearby_agents view
+  for (const a of conn.db.nearbyAgents.iter()) {
+    if (a.x < minTX || a.x > maxTX || a.y < minTY || a.y > maxTY) continue;
+    drawAgent(a);
+  }
+
+  // Highlight the tile the camera was sent to
+  if (cameraFocus) {
+    const pulse = 0.5 + 0.5 * Math.sin(Date.now() / 150);
+    ctx2d.strokeStyle = `rgba(255,204,0,${0.4 + 0.6 * pulse})`;
+    ctx2d.lineWidth = 2;
+    ctx2d.strokeRect(cameraFocus.x * TILE_SIZE, cameraFocus.y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+  }
+
+  drawWalkPath();
+  usePreview = useMode ? computeUsePreview() : [];
+  drawUsePreview();
+  drawActionEffect();
+  drawObservationRefs();
+
+  // Outline the tile open in the inspector
+  if (inspectedTile) {
+    ctx2d.strokeStyle = '#66ddff';
+    ctx2d.lineWidth = 2;
+    ctx2d.strokeRect(inspectedTile.x * TILE_SIZE, inspectedTile.y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+  }
+
+  pruneAgentMotions(frameNow);
+
+  // Draw floating messages
+  const now = Date.now();
+  for (let i = floatingMessages.length - 1; i >= 0; i--) {
+    const msg = floatingMessages[i];
+    const age = now - msg.time;
+    if (age > MESSAGE_DURATION_MS) { floatingMessages.splice(i, 1); continue; }
+    const alpha = Math.max(0, 1 - age / MESSAGE_DURATION_MS);
+    ctx2d.globalAlpha = alpha;
+    ctx2d.fillStyle = 'white';
+    ctx2d.strokeStyle = 'black';
+    ctx2d.lineWidth = 2;
+    ctx2d.font = '12px monospace';
+    ctx2d.textAlign = 'center';
     const tx = msg.x * TILE_SIZE + TILE_SIZE / 2;
     const ty = msg.y * TILE_SIZE - 8 - (age / MESSAGE_DURATION_MS) * 20;
     ctx2d.strokeText(msg.text, tx, ty);
@@ -352,621 +1623,2157 @@ function render() {
     ctx2d.globalAlpha = 1;
   }
 
-  ctx2d.restore();
+  ctx2d.restore();
+
+  // HUD
+  drawHUD();
+  updateMinimap();
+  updateInspector();
+  updateWalk();
+  updateRulesPanel();
+  updateAdminPanel();
+  updateObservationPanel();
+
+  requestAnimationFrame(render);
+}
+
+function drawItem(item: any, stackIndex: number = 0, stackSize: number = 1) {
+  // Stack offset: each item in stack is offset slightly up-left
+  // Bottom item (index 0) is at base, top item (highest index) is offset most
+  const stackOffset = 2; // pixels per stack level
+  const offsetX = stackIndex * stackOffset;
+  const offsetY = -stackIndex * stackOffset; // negative = up
+
+  const cx = item.x * TILE_SIZE + TILE_SIZE / 2 + offsetX;
+  const cy = item.y * TILE_SIZE + TILE_SIZE / 2 + offsetY;
+  const tags = tagsOf(item.tags);
+
+  getItemAppearance(tags).draw(ctx2d, cx, cy, tags);
+
+  // Draw item label below (only for top item in stack, if enabled)
+  if (showItemLabels && stackIndex === stackSize - 1) {
+    const name = getItemDisplayName(tags);
+    if (name && name !== '?') {
+      ctx2d.font = '7px monospace';
+      ctx2d.textAlign = 'center';
+      ctx2d.fillStyle = 'rgba(255,255,255,0.9)';
+      ctx2d.strokeStyle = 'rgba(0,0,0,0.7)';
+      ctx2d.lineWidth = 2;
+      // Position at bottom of tile, truncate if too long
+      const displayName = name.length > 6 ? name.substring(0, 5) + '..' : name;
+      const labelY = item.y * TILE_SIZE + TILE_SIZE - 2;
+      ctx2d.strokeText(displayName, cx, labelY);
+      ctx2d.fillText(displayName, cx, labelY);
+    }
+  }
+}
+
+function drawAgent(a: any) {
+  const now = Date.now();
+  const motion = updateAgentMotion(a, now);
+  const [tx, ty] = motionPosition(motion, now);
+  let cx = tx * TILE_SIZE + TILE_SIZE / 2;
+  let cy = ty * TILE_SIZE + TILE_SIZE / 2;
+  const isMe = myIdentity && a.identity?.isEqual?.(myIdentity);
+
+  // Walk: small hop while the move tween runs
+  const walkT = (now - motion.moveStart) / ACTION_INTERVAL_MS;
+  if (walkT < 1) cy -= Math.sin(walkT * Math.PI) * 3;
+
+  // Attack: lunge towards facing direction. Eat: chomping pulse.
+  let bodyScale = 1;
+  if (motion.anim) {
+    const p = (now - motion.animStart) / (motion.anim === 'eat' ? EAT_ANIM_MS : ATTACK_ANIM_MS);
+    if (p >= 1) motion.anim = null;
+    else if (motion.anim === 'attack') {
+      const lunge = Math.sin(p * Math.PI) * 6;
+      cx += motion.facingX * lunge;
+      cy += motion.facingY * lunge;
+    } else {
+      bodyScale = 1 + 0.15 * Math.sin(p * Math.PI * 4);
+    }
+  }
+
+  ctx2d.save();
+  ctx2d.translate(cx, cy);
+  ctx2d.scale(bodyScale, bodyScale);
+  ctx2d.translate(-cx, -cy);
+  // Sprite from the asset manifest replaces the procedural crab
+  const sprite = getAgentSprite(a.tags);
+  if (sprite) drawSpriteFrame(ctx2d, sprite, cx, cy);
+  else drawCrab(cx, cy, !!isMe);
+  ctx2d.restore();
+
+  // Name
+  ctx2d.fillStyle = 'white';
+  ctx2d.strokeStyle = 'black';
+  ctx2d.lineWidth = 2;
+  ctx2d.font = 'bold 10px monospace';
+  ctx2d.textAlign = 'center';
+  ctx2d.strokeText(a.name, cx, cy - 16);
+  ctx2d.fillText(a.name, cx, cy - 16);
+
+  // HP bar
+  const hp = tagsOf(a.tags).hp;
+  const barW = 24;
+  const barH = 3;
+  const barX = cx - barW / 2;
+  const barY = cy + 14;
+  ctx2d.fillStyle = '#333';
+  ctx2d.fillRect(barX, barY, barW, barH);
+  ctx2d.fillStyle = hp > 50 ? '#22cc22' : hp > 25 ? '#cccc22' : '#cc2222';
+  ctx2d.fillRect(barX, barY, barW * (hp / 100), barH);
+}
+
+function drawCrab(cx: number, cy: number, isMe: boolean) {
+  // Body (crab = small head up + two tail segments decreasing)
+  ctx2d.fillStyle = isMe ? '#ff4444' : '#cc3333';
+  // Tail segment 2 (smallest, back)
+  ctx2d.beginPath();
+  ctx2d.arc(cx, cy + 10, 3, 0, Math.PI * 2);
+  ctx2d.fill();
+  // Tail segment 1 (medium)
+  ctx2d.beginPath();
+  ctx2d.arc(cx, cy + 4, 5, 0, Math.PI * 2);
+  ctx2d.fill();
+  // Main body (head, smaller and higher)
+  ctx2d.beginPath();
+  ctx2d.arc(cx, cy - 4, 8, 0, Math.PI * 2);
+  ctx2d.fill();
+  // Outline for main body
+  ctx2d.strokeStyle = isMe ? '#ffcc00' : '#000';
+  ctx2d.lineWidth = isMe ? 2 : 1;
+  ctx2d.beginPath();
+  ctx2d.arc(cx, cy - 4, 8, 0, Math.PI * 2);
+  ctx2d.stroke();
+
+  // Eyes (on smaller raised head)
+  ctx2d.fillStyle = 'white';
+  ctx2d.beginPath(); ctx2d.arc(cx - 3, cy - 6, 2, 0, Math.PI * 2); ctx2d.fill();
+  ctx2d.beginPath(); ctx2d.arc(cx + 3, cy - 6, 2, 0, Math.PI * 2); ctx2d.fill();
+  ctx2d.fillStyle = 'black';
+  ctx2d.beginPath(); ctx2d.arc(cx - 3, cy - 6, 0.8, 0, Math.PI * 2); ctx2d.fill();
+  ctx2d.beginPath(); ctx2d.arc(cx + 3, cy - 6, 0.8, 0, Math.PI * 2); ctx2d.fill();
+
+  // Claws (pincers) - attached to smaller head
+  ctx2d.strokeStyle = isMe ? '#ff4444' : '#cc3333';
+  ctx2d.lineWidth = 2;
+  // Left arm (from head side outward)
+  ctx2d.beginPath(); ctx2d.moveTo(cx - 7, cy - 4); ctx2d.lineTo(cx - 14, cy - 5); ctx2d.stroke();
+  // Left pincer (from middle of arm going UP)
+  ctx2d.beginPath(); ctx2d.moveTo(cx - 10, cy - 4); ctx2d.lineTo(cx - 14, cy - 11); ctx2d.stroke();
+  // Right arm (from head side outward)
+  ctx2d.beginPath(); ctx2d.moveTo(cx + 7, cy - 4); ctx2d.lineTo(cx + 14, cy - 5); ctx2d.stroke();
+  // Right pincer (from middle of arm going UP)
+  ctx2d.beginPath(); ctx2d.moveTo(cx + 10, cy - 4); ctx2d.lineTo(cx + 14, cy - 11); ctx2d.stroke();
+}
+
+function drawHUD() {
+  const agent = getMyAgent();
+  if (spectating) {
+    if (agent) drawSpectatorHUD(agent);
+    return;
+  }
+  if (!agent || !playing) {
+    // Show play button area
+    if (!playing) {
+      playBtn.style.display = 'block';
+    }
+    return;
+  }
+  playBtn.style.display = 'none';
+
+  const { hp, satiety } = tagsOf(agent.tags);
+  const inv = getInventory();
+
+  let html = `<div class="stat">HP: <span class="bar"><span class="fill hp" style="width:${hp}%"></span></span> ${hp}</div>`;
+  html += `<div class="stat">Satiety: <span class="bar"><span class="fill satiety" style="width:${satiety}%"></span></span> ${satiety}</div>`;
+  html += `<div class="inventory">`;
+
+  // Slot 0: Bare hands (same format as other slots: number + icon)
+  const bareHandsSel = selectedSlot === 0 ? ' selected' : '';
+  html += `<div class="slot${bareHandsSel}" onclick="window.__selectSlot(0)" title="Bare hands (punch/interact)">0<br>${getHandIcon()}</div>`;
+
+  // Slots 1-8: Inventory
+  for (let i = 0; i < 8; i++) {
+    const item = inv[i];
+    const sel = (i + 1) === selectedSlot ? ' selected' : '';
+    const icon = item ? getItemIcon(item.tags) : '';
+    const label = item ? getItemName(item.tags) : '';
+    html += `<div class="slot${sel}" onclick="window.__selectSlot(${i + 1})" title="${label}">${i + 1}<br>${icon}</div>`;
+  }
+  html += `</div>`;
+
+  // Selected item info
+  if (selectedSlot === 0) {
+    html += `<div style="margin-top:4px;color:#ffcc00;font-size:12px">Selected: <b>Bare hands</b> — <kbd>F</kbd> to punch/take</div>`;
+  } else {
+    const selItem = inv[selectedSlot - 1];
+    if (selItem) {
+      const name = getItemName(selItem.tags);
+      html += `<div style="margin-top:4px;color:#ffcc00;font-size:12px">Selected: <b>${name}</b> — <kbd>F</kbd> to use, <kbd>Q</kbd> to drop</div>`;
+      if (tagsOf(selItem.tags).food) {
+        html += `<div style="color:#88ff88;font-size:11px">Press <kbd>F</kbd> then <kbd>Space</kbd> to eat</div>`;
+      }
+    }
+  }
+
+  if (useMode) {
+    html += `<div class="use-hint">USE: W/A/S/D=direction, F=here, Space=self (eat), Esc=cancel</div>`;
+    const keys: Record<string, string> = { north: 'W', south: 'S', west: 'A', east: 'D', here: 'F', self: 'Space' };
+    for (const p of usePreview) {
+      html += `<div class="use-preview"><kbd>${keys[p.target]}</kbd> ${formatUsePreview(p)}</div>`;
+    }
+  }
+
+  // Cooldown indicator
+  const cdRemaining = Math.max(0, ACTION_INTERVAL_MS - (Date.now() - lastActionTime));
+  if (cdRemaining > 0) {
+    const cdPct = (cdRemaining / ACTION_INTERVAL_MS) * 100;
+    html += `<div class="stat" style="margin-top:6px">Action: <span class="bar"><span class="fill" style="width:${cdPct}%;background:#cc4444"></span></span></div>`;
+  } else {
+    html += `<div class="stat" style="margin-top:6px;color:#66ff66">Action: READY</div>`;
+  }
+
+  hud.innerHTML = html;
+  hud.style.display = 'block';
+}
+
+// Read-only HUD for spectator mode: stats + inventory, no selection or actions
+function drawSpectatorHUD(agent: any) {
+  const { hp, satiety } = tagsOf(agent.tags);
+  const inv = getInventory();
+
+  let html = `<div class="spectating">${replay ? 'REPLAY' : 'OBSERVING'} <b>${escapeHtml(agent.name)}</b></div>`;
+  html += `<div class="stat">HP: <span class="bar"><span class="fill hp" style="width:${hp}%"></span></span> ${hp}</div>`;
+  html += `<div class="stat">Satiety: <span class="bar"><span class="fill satiety" style="width:${satiety}%"></span></span> ${satiety}</div>`;
+  html += `<div class="inventory">`;
+  for (let i = 0; i < 8; i++) {
+    const item = inv[i];
+    const icon = item ? getItemIcon(item.tags) : '';
+    const label = item ? getItemName(item.tags) : '';
+    html += `<div class="slot readonly" title="${label}">${i + 1}<br>${icon}</div>`;
+  }
+  html += `</div>`;
+
+  hud.innerHTML = html;
+  hud.style.display = 'block';
+}
+
+// Icon cache for HUD (data URLs)
+const iconCache = new Map<string, string>();
+const ICON_SIZE = 24;
+
+function getItemIconDataUrl(tags: string): string {
+  // Check cache first
+  const cacheKey = tags;
+  if (iconCache.has(cacheKey)) return iconCache.get(cacheKey)!;
+
+  // Create offscreen canvas
+  const offscreen = document.createElement('canvas');
+  offscreen.width = ICON_SIZE;
+  offscreen.height = ICON_SIZE;
+  const octx = offscreen.getContext('2d')!;
+
+  // Draw icon centered
+  const cx = ICON_SIZE / 2;
+  const cy = ICON_SIZE / 2;
+  const scale = 0.8; // Scale down slightly to fit
+
+  octx.save();
+  octx.translate(cx, cy);
+  octx.scale(scale, scale);
+  octx.translate(-cx, -cy);
+
+  const m = tagsOf(tags);
+  getItemAppearance(m).draw(octx, cx, cy, m);
+
+  octx.restore();
+
+  // Convert to data URL and cache
+  const dataUrl = offscreen.toDataURL('image/png');
+  iconCache.set(cacheKey, dataUrl);
+  return dataUrl;
+}
+
+function getItemIcon(tags: string): string {
+  // Return HTML img tag with canvas-rendered icon
+  const dataUrl = getItemIconDataUrl(tags);
+  return `<img src="${dataUrl}" width="${ICON_SIZE}" height="${ICON_SIZE}" style="vertical-align:middle">`;
+}
+
+// Hand icon for bare hands (open palm with fingers)
+let handIconCache: string | null = null;
+function getHandIcon(): string {
+  if (handIconCache) return handIconCache;
+
+  const offscreen = document.createElement('canvas');
+  offscreen.width = ICON_SIZE;
+  offscreen.height = ICON_SIZE;
+  const octx = offscreen.getContext('2d')!;
+  const cx = ICON_SIZE / 2;
+  const cy = ICON_SIZE / 2 + 2;
+
+  octx.fillStyle = '#e8c4a0'; // skin tone
+
+  // Palm (rounded rectangle)
+  octx.beginPath();
+  octx.roundRect(cx - 5, cy - 2, 10, 10, 2);
+  octx.fill();
+
+  // Five fingers (vertical lines from palm)
+  const fingerWidth = 2;
+  const fingerSpacing = 2.5;
+  const fingerLength = 6;
+  for (let i = 0; i < 4; i++) {
+    const fx = cx - 4 + i * fingerSpacing;
+    octx.fillRect(fx, cy - 2 - fingerLength, fingerWidth, fingerLength);
+  }
+
+  // Thumb (angled to the side)
+  octx.fillRect(cx - 7, cy + 1, 4, 3);
+
+  handIconCache = `<img src="${offscreen.toDataURL('image/png')}" width="${ICON_SIZE}" height="${ICON_SIZE}" style="vertical-align:middle">`;
+  return handIconCache;
+}
+
+function getItemName(tags: string): string {
+  return getItemDisplayName(tagsOf(tags));
+}
+
+// ============================================================
+// Leaderboard (table callbacks, incremental DOM)
+// ============================================================
+const LEADERBOARD_COLLAPSED_ROWS = 10;
+const LEADERBOARD_TICK_MS = 1000; // Live streak clocks and alive status
+type LeaderboardSort = 'streak' | 'kills' | 'deaths' | 'kd';
+type AliveStatus = 'alive' | 'dead' | 'unknown';
+interface LeaderboardEntry {
+  row: any;
+  el: HTMLTableRowElement;
+  status: AliveStatus;
+  bornAt: number; // Living agents only; their streak is now - bornAt
+}
+const leaderboardBody = document.getElementById('leaderboard-body') as HTMLTableSectionElement;
+const leaderboardSearch = document.getElementById('leaderboard-search') as HTMLInputElement;
+const leaderboardEntries = new Map<string, LeaderboardEntry>(); // Keyed by identity hex
+let leaderboardSort: LeaderboardSort = 'streak';
+let leaderboardExpanded = false;
+let leaderboardOrderDirty = true;
+// Rows of the agent table when it's readable; null = private, only our views are known
+let allAgents: Map<string, any> | null = null;
+
+// Separate subscription: the agent table may be private
+function subscribeAgents(c: DbConnection) {
+  c.db.agent.onInsert((_ctx, a) => { allAgents?.set(a.identity.toHexString(), a); });
+  c.db.agent.onUpdate((_ctx, _old, a) => { allAgents?.set(a.identity.toHexString(), a); });
+  c.db.agent.onDelete((_ctx, a) => { allAgents?.delete(a.identity.toHexString()); });
+  c.subscriptionBuilder()
+    .onApplied(() => {
+      if (conn !== c) return;
+      allAgents = new Map([...c.db.agent.iter()].map(a => [a.identity.toHexString(), a]));
+      refreshLeaderboardStatus();
+    })
+    .onError((ctx) => console.warn('Agent table not readable, alive status limited to visible agents:', ctx.event))
+    .subscribe(['SELECT * FROM agent']);
+}
+
+// Without the agent table, an agent out of view may well be alive: report unknown, not dead
+function getAliveStatus(id: string): { status: AliveStatus; bornAt: number } {
+  let agent = allAgents?.get(id);
+  if (!agent && conn) {
+    for (const a of [...conn.db.myAgent.iter(), ...conn.db.nearbyAgents.iter()]) {
+      if (a.identity.toHexString() === id) { agent = a; break; }
+    }
+  }
+  if (agent) return { status: 'alive', bornAt: tagsOf(agent.tags).bornAt };
+  return { status: allAgents ? 'dead' : 'unknown', bornAt: 0 };
+}
+
+function leaderboardStreak(e: LeaderboardEntry): number {
+  return e.status === 'alive' && e.bornAt > 0 ? Date.now() - e.bornAt : Number(e.row.bestStreak);
+}
+
+function leaderboardKd(row: any): number {
+  return row.totalKills / Math.max(1, row.totalDeaths);
+}
+
+function formatStreak(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return mins > 0 ? `${mins}m${secs}s` : `${secs}s`;
+}
+
+function createLeaderboardRow(id: string): HTMLTableRowElement {
+  const el = document.createElement('tr');
+  for (let i = 0; i < 6; i++) el.appendChild(document.createElement('td'));
+  el.cells[1].className = 'name';
+  el.cells[1].title = 'Open profile';
+  el.cells[1].addEventListener('click', () => openAgentProfile(id));
+  return el;
+}
+
+// Write one row's cells; textContent only changes what differs
+function fillLeaderboardRow(e: LeaderboardEntry) {
+  const [status, name, streak, kills, deaths, kd] = [...e.el.cells];
+  const marker = e.status === 'alive' ? '[A]' : e.status === 'dead' ? '[X]' : '[?]';
+  if (status.textContent !== marker) {
+    status.textContent = marker;
+    status.className = `status ${e.status}`;
+    status.title = e.status === 'unknown' ? 'Not in view - alive status unknown' : '';
+  }
+  const values = [e.row.name, formatStreak(leaderboardStreak(e)), String(e.row.totalKills), String(e.row.totalDeaths), leaderboardKd(e.row).toFixed(2)];
+  [name, streak, kills, deaths, kd].forEach((cell, i) => {
+    if (cell.textContent !== values[i]) cell.textContent = values[i];
+  });
+}
+
+function upsertLeaderboardRow(row: any) {
+  const id = row.identity.toHexString();
+  let entry = leaderboardEntries.get(id);
+  if (!entry) {
+    entry = { row, el: createLeaderboardRow(id), ...getAliveStatus(id) };
+    leaderboardEntries.set(id, entry);
+  }
+  entry.row = row;
+  fillLeaderboardRow(entry);
+  leaderboardOrderDirty = true;
+  applyLeaderboardOrder();
+}
+
+function removeLeaderboardRow(row: any) {
+  const id = row.identity.toHexString();
+  const entry = leaderboardEntries.get(id);
+  if (!entry) return;
+  entry.el.remove();
+  leaderboardEntries.delete(id);
+}
+
+function compareLeaderboard(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  switch (leaderboardSort) {
+    case 'kills': return b.row.totalKills - a.row.totalKills;
+    case 'deaths': return b.row.totalDeaths - a.row.totalDeaths;
+    case 'kd': return leaderboardKd(b.row) - leaderboardKd(a.row);
+    default: return leaderboardStreak(b) - leaderboardStreak(a);
+  }
+}
+
+// Re-append rows in order; appendChild moves existing nodes, so nothing is rebuilt
+function applyLeaderboardOrder() {
+  if (!leaderboardOrderDirty) return;
+  leaderboardOrderDirty = false;
+  const query = leaderboardSearch.value.trim().toLowerCase();
+  const sorted = [...leaderboardEntries.values()].sort(compareLeaderboard);
+  let shown = 0;
+  for (const e of sorted) {
+    const visible = leaderboardExpanded
+      ? !query || e.row.name.toLowerCase().includes(query)
+      : shown < LEADERBOARD_COLLAPSED_ROWS;
+    e.el.style.display = visible ? '' : 'none';
+    if (visible) shown++;
+    leaderboardBody.appendChild(e.el);
+  }
+}
+
+// Streak clocks tick and agents come and go from view; leaderboard rows only change via callbacks
+function refreshLeaderboardStatus() {
+  for (const [id, e] of leaderboardEntries) {
+    const { status, bornAt } = getAliveStatus(id);
+    e.status = status;
+    e.bornAt = bornAt;
+    fillLeaderboardRow(e);
+  }
+  // Streak order shifts as living agents' clocks run
+  if (leaderboardSort === 'streak') leaderboardOrderDirty = true;
+  applyLeaderboardOrder();
+}
+
+function clearLeaderboard() {
+  for (const e of leaderboardEntries.values()) e.el.remove();
+  leaderboardEntries.clear();
+  allAgents = null;
+}
+
+function setLeaderboardSort(sort: LeaderboardSort) {
+  leaderboardSort = sort;
+  for (const th of leaderboardDiv.querySelectorAll('th[data-sort]')) {
+    th.classList.toggle('active', (th as HTMLElement).dataset.sort === sort);
+  }
+  leaderboardOrderDirty = true;
+  applyLeaderboardOrder();
+}
+
+function toggleLeaderboardExpanded() {
+  leaderboardExpanded = !leaderboardExpanded;
+  leaderboardDiv.classList.toggle('expanded', leaderboardExpanded);
+  document.getElementById('leaderboard-toggle')!.textContent = leaderboardExpanded ? '[top]' : '[all]';
+  leaderboardOrderDirty = true;
+  applyLeaderboardOrder();
+}
+
+leaderboardDiv.querySelector('thead')!.addEventListener('click', (e) => {
+  const th = (e.target as HTMLElement).closest('th[data-sort]') as HTMLElement | null;
+  if (th) setLeaderboardSort(th.dataset.sort as LeaderboardSort);
+});
+document.getElementById('leaderboard-toggle')!.addEventListener('click', () => toggleLeaderboardExpanded());
+leaderboardSearch.addEventListener('input', () => {
+  leaderboardOrderDirty = true;
+  applyLeaderboardOrder();
+});
+setInterval(() => { if (conn) refreshLeaderboardStatus(); }, LEADERBOARD_TICK_MS);
+
+// ============================================================
+// Agent vitals (HP / satiety samples while an agent is in view)
+// ============================================================
+const VITALS_MAX = 240; // Samples kept per agent
+const VITALS_SAMPLE_MS = 2000; // Unchanged vitals are still sampled this often
+const VITALS_AGENTS_MAX = 200; // Least recently seen agents are forgotten beyond this
+type VitalsSample = { t: number; hp: number; satiety: number };
+const agentVitals = new Map<string, { bornAt: number; samples: VitalsSample[] }>(); // Keyed by identity hex
+
+// Called from the agent view callbacks and every frame for our own agent
+function recordVitals(agent: any) {
+  const id = agent.identity.toHexString();
+  const tags = tagsOf(agent.tags);
+  const now = Date.now();
+  let entry = agentVitals.get(id);
+  // A new life starts a new history
+  if (!entry || entry.bornAt !== tags.bornAt) entry = { bornAt: tags.bornAt, samples: [] };
+  agentVitals.delete(id);
+  agentVitals.set(id, entry); // Re-insert keeps the map in least-recently-seen order
+  const last = entry.samples[entry.samples.length - 1];
+  if (last && last.hp === tags.hp && last.satiety === tags.satiety && now - last.t < VITALS_SAMPLE_MS) return;
+  entry.samples.push({ t: now, hp: tags.hp, satiety: tags.satiety });
+  if (entry.samples.length > VITALS_MAX) entry.samples.shift();
+  if (agentVitals.size > VITALS_AGENTS_MAX) agentVitals.delete(agentVitals.keys().next().value!);
+}
+
+function getVitals(id: string): VitalsSample[] {
+  return agentVitals.get(id)?.samples ?? [];
+}
+
+// One line per series, scaled to the largest value seen
+function drawVitalsChart(canvasEl: HTMLCanvasElement, samples: VitalsSample[], series: ('hp' | 'satiety')[] = ['satiety', 'hp']) {
+  const c = canvasEl.getContext('2d')!;
+  const w = canvasEl.width, h = canvasEl.height;
+  c.fillStyle = '#111';
+  c.fillRect(0, 0, w, h);
+  if (samples.length < 2) return;
+  const t0 = samples[0].t, span = Math.max(1, samples[samples.length - 1].t - t0);
+  const max = Math.max(1, ...samples.map(v => Math.max(...series.map(key => v[key]))));
+  for (const key of series) {
+    c.strokeStyle = key === 'hp' ? '#ff4444' : '#44cc44';
+    c.lineWidth = 1.5;
+    c.beginPath();
+    samples.forEach((v, i) => {
+      const x = ((v.t - t0) / span) * (w - 2) + 1;
+      const y = h - 2 - (v[key] / max) * (h - 4);
+      if (i === 0) c.moveTo(x, y); else c.lineTo(x, y);
+    });
+    c.stroke();
+  }
+}
+
+// ============================================================
+// Agent profiles (side-by-side cards)
+// ============================================================
+const AGENT_PROFILES_MAX = 3; // Opening another replaces the oldest card
+const AGENT_PROFILE_REFRESH_MS = 1000;
+const PROFILE_ACTIONS = 8;
+const PROFILE_MESSAGES = 6;
+interface AgentProfileCard {
+  id: string; // Identity hex
+  name: string;
+  el: HTMLDivElement;
+  sub: { unsubscribe(): void } | null; // actionlog/message rows for this agent, if readable
+  history: boolean; // Full history subscription applied (otherwise only what we saw nearby)
+  renderKeys: { summary: string; vitals: string; history: string }; // Last rendered content per section
+}
+const agentProfilesDiv = document.getElementById('agent-profiles') as HTMLDivElement;
+const agentProfiles: AgentProfileCard[] = [];
+
+// The full tables may be private: fall back to the nearby views we already keep
+function subscribeProfileHistory(card: AgentProfileCard) {
+  if (!conn) return;
+  const thisConn = conn;
+  const name = card.name.replace(/'/g, "''");
+  card.sub = conn.subscriptionBuilder()
+    .onApplied(() => { if (conn === thisConn) { card.history = true; renderAgentProfile(card); } })
+    .onError((ctx) => console.warn(`History for ${card.name} not readable, showing nearby events only:`, ctx.event))
+    .subscribe([
+      `SELECT * FROM actionlog WHERE actor_name = '${name}'`,
+      `SELECT * FROM message WHERE sender = 0x${card.id}`,
+    ]);
+}
+
+function openAgentProfile(id: string) {
+  const existing = agentProfiles.find(c => c.id === id);
+  if (existing) { existing.el.classList.remove('flash'); void existing.el.offsetWidth; existing.el.classList.add('flash'); return; }
+  const lb = leaderboardEntries.get(id)?.row;
+  const agent = allAgents?.get(id) ?? getVisibleAgent(id);
+  const name: string = lb?.name ?? agent?.name ?? id.substring(0, 8);
+  if (agentProfiles.length >= AGENT_PROFILES_MAX) closeAgentProfile(agentProfiles[0].id);
+
+  const el = document.createElement('div');
+  el.className = 'agent-profile';
+  const card: AgentProfileCard = { id, name, el, sub: null, history: false, renderKeys: { summary: '', vitals: '', history: '' } };
+  agentProfiles.push(card);
+  agentProfilesDiv.appendChild(el);
+  subscribeProfileHistory(card);
+  renderAgentProfile(card);
+}
+
+function closeAgentProfile(id: string) {
+  const i = agentProfiles.findIndex(c => c.id === id);
+  if (i === -1) return;
+  const [card] = agentProfiles.splice(i, 1);
+  try { card.sub?.unsubscribe(); } catch { /* connection already gone */ }
+  card.el.remove();
+}
+
+function getVisibleAgent(id: string): any | null {
+  if (!conn) return null;
+  for (const a of [...conn.db.myAgent.iter(), ...conn.db.nearbyAgents.iter()]) {
+    if (a.identity.toHexString() === id) return a;
+  }
+  return null;
+}
+
+// Full-history rows when subscribed, merged with the nearby views (deduped by id)
+function getProfileActions(card: AgentProfileCard): any[] {
+  const byId = new Map<string, any>();
+  for (const e of eventFeed) if (e.actorName === card.name) byId.set(e.id.toString(), e);
+  if (card.history && conn) {
+    for (const e of conn.db.actionlog.iter()) if (e.actorName === card.name) byId.set(e.id.toString(), e);
+  }
+  return [...byId.values()].sort((a, b) => Number(a.timestamp) - Number(b.timestamp)).slice(-PROFILE_ACTIONS);
+}
+
+function getProfileMessages(card: AgentProfileCard): any[] {
+  const byId = new Map<string, any>();
+  for (const m of chatHistory) if (m.sender.toHexString() === card.id) byId.set(m.id.toString(), m);
+  if (card.history && conn) {
+    for (const m of conn.db.message.iter()) if (m.sender.toHexString() === card.id) byId.set(m.id.toString(), m);
+  }
+  return [...byId.values()].sort((a, b) => Number(a.sentAt) - Number(b.sentAt)).slice(-PROFILE_MESSAGES);
+}
+
+// Sections are only rebuilt when their content changed: the 1s refresh must not
+// reset scrolling or a text selection inside the card
+function renderAgentProfile(card: AgentProfileCard) {
+  if (!card.el.firstChild) {
+    card.el.innerHTML = `<div class="summary"></div>`
+      + `<h4>HP <span style="color:#ff4444">■</span> / satiety <span style="color:#44cc44">■</span></h4>`
+      + `<canvas class="hp" width="260" height="24"></canvas><canvas class="satiety" width="260" height="24"></canvas>`
+      + `<div class="history"></div>`;
+  }
+  const lb = leaderboardEntries.get(card.id);
+  const { status, bornAt } = getAliveStatus(card.id);
+  const agent = getVisibleAgent(card.id);
+  const tags = agent ? tagsOf(agent.tags) : null;
+
+  let html = `<div class="panel-header"><span class="title">${escapeHtml(card.name)}</span><span class="close" data-action="close">[x]</span></div>`;
+  html += `<div class="muted">${card.id.substring(0, 8)} · <span class="status ${status}">${status}</span>`;
+  if (agent) html += ` · <span class="link" data-action="show">(${agent.x}, ${agent.y})</span>`;
+  html += `</div>`;
+
+  html += `<table class="stats">`;
+  if (status === 'alive' && bornAt > 0) html += `<tr><td>Current life</td><td class="life"></td></tr>`;
+  if (lb) {
+    html += `<tr><td>Best streak</td><td>${formatStreak(Number(lb.row.bestStreak))}</td></tr>`;
+    html += `<tr><td>Kills / deaths</td><td>${lb.row.totalKills} / ${lb.row.totalDeaths} (K/D ${leaderboardKd(lb.row).toFixed(2)})</td></tr>`;
+  } else {
+    html += `<tr><td colspan="2" class="muted">Not on the leaderboard</td></tr>`;
+  }
+  if (tags) html += `<tr><td>HP / satiety</td><td>${tags.hp} / ${tags.satiety}</td></tr>`;
+  html += `</table>`;
+  const summary = card.el.querySelector('.summary') as HTMLDivElement;
+  if (card.renderKeys.summary !== html) {
+    card.renderKeys.summary = html;
+    summary.innerHTML = html;
+  }
+  // Ticks every refresh: text only
+  const life = summary.querySelector('.life');
+  if (life) life.textContent = formatDuration(Date.now() - bornAt);
+
+  const samples = getVitals(card.id);
+  const vitalsKey = `${samples.length}:${samples[0]?.t}:${samples[samples.length - 1]?.t}`;
+  if (card.renderKeys.vitals !== vitalsKey) {
+    card.renderKeys.vitals = vitalsKey;
+    drawVitalsChart(card.el.querySelector('canvas.hp') as HTMLCanvasElement, samples, ['hp']);
+    drawVitalsChart(card.el.querySelector('canvas.satiety') as HTMLCanvasElement, samples, ['satiety']);
+  }
+
+  const actions = getProfileActions(card);
+  let history = `<h4>Recent actions${card.history ? '' : ' <span class="muted">(nearby only)</span>'}</h4>`;
+  history += actions.length === 0 ? '<div class="muted">None seen</div>' : actions.map(e =>
+    `<div><span class="time">${formatTime(e.timestamp)}</span> ${escapeHtml(e.action)} ${escapeHtml(e.details)}</div>`).join('');
+  const messages = getProfileMessages(card);
+  history += `<h4>Recent chat${card.history ? '' : ' <span class="muted">(nearby only)</span>'}</h4>`;
+  history += messages.length === 0 ? '<div class="muted">None seen</div>' : messages.map(m =>
+    `<div><span class="time">${formatTime(m.sentAt)}</span> ${escapeHtml(m.text)}</div>`).join('');
+  if (card.renderKeys.history !== history) {
+    card.renderKeys.history = history;
+    (card.el.querySelector('.history') as HTMLDivElement).innerHTML = history;
+  }
+}
+
+function clearAgentProfiles() {
+  // Subscriptions die with the connection; cards are reopened by the user
+  for (const card of agentProfiles) card.el.remove();
+  agentProfiles.length = 0;
+}
+
+agentProfilesDiv.addEventListener('click', (e) => {
+  const target = e.target as HTMLElement;
+  const card = agentProfiles.find(c => c.el.contains(target));
+  if (!card) return;
+  if (target.dataset.action === 'close') closeAgentProfile(card.id);
+  else if (target.dataset.action === 'show') {
+    const agent = getVisibleAgent(card.id);
+    if (agent) cameraFocus = { x: agent.x, y: agent.y };
+  }
+});
+setInterval(() => { for (const card of agentProfiles) renderAgentProfile(card); }, AGENT_PROFILE_REFRESH_MS);
+
+// ============================================================
+// Minimap
+// ============================================================
+const MINIMAP_SIZE = 160; // px, square
+const MINIMAP_REDRAW_MS = 200; // At most this often, and only when something changed
+const MINIMAP_BG = '#111';
+// Notable items shown as dots (first matching tag wins)
+const MINIMAP_ITEM_COLORS: [string, string][] = [
+  ['name:fire', '#ff6600'], ['burning', '#ff6600'],
+  ['name:tree', '#1a3d10'], ['name:rock', '#c0c0c0'],
+  ['name:wall', '#8b4513'], ['name:berry_bush', '#cc2222'],
+];
+const minimapCanvas = document.getElementById('minimap') as HTMLCanvasElement;
+const minimapCtx = minimapCanvas.getContext('2d')!;
+minimapCanvas.width = minimapCanvas.height = MINIMAP_SIZE;
+// Terrain layer: tiles only, painted per tile as they arrive
+const minimapTerrain = document.createElement('canvas');
+minimapTerrain.width = minimapTerrain.height = MINIMAP_SIZE;
+const minimapTerrainCtx = minimapTerrain.getContext('2d')!;
+// Tile -> minimap pixel mapping, fixed between full terrain repaints
+let minimapView = { minX: 0, minY: 0, maxX: -1, maxY: -1, scale: 1, offX: 0, offY: 0 };
+let minimapTerrainStale = true; // Full repaint needed (bounds changed or tiles removed)
+let minimapDirty = true; // Dots/viewport need recomposing
+let minimapLastDraw = 0;
+let minimapLastCam = '';
+let minimapVisible = true;
+
+// Paint a single inserted/updated tile, or schedule a full repaint if it's outside the bounds
+function paintMinimapTile(tile: any) {
+  minimapDirty = true;
+  if (minimapTerrainStale) return;
+  const v = minimapView;
+  if (tile.x < v.minX || tile.x > v.maxX || tile.y < v.minY || tile.y > v.maxY) {
+    minimapTerrainStale = true;
+    return;
+  }
+  minimapTerrainCtx.fillStyle = getTileColor(tile.tags);
+  minimapTerrainCtx.fillRect(v.offX + (tile.x - v.minX) * v.scale, v.offY + (tile.y - v.minY) * v.scale, Math.ceil(v.scale), Math.ceil(v.scale));
+}
+
+function repaintMinimapTerrain() {
+  if (!conn) return;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const tile of conn.db.nearbyTiles.iter()) {
+    if (tile.x < minX) minX = tile.x;
+    if (tile.x > maxX) maxX = tile.x;
+    if (tile.y < minY) minY = tile.y;
+    if (tile.y > maxY) maxY = tile.y;
+  }
+  minimapTerrainCtx.fillStyle = MINIMAP_BG;
+  minimapTerrainCtx.fillRect(0, 0, MINIMAP_SIZE, MINIMAP_SIZE);
+  minimapTerrainStale = false;
+  minimapDirty = true;
+  if (minX > maxX) { minimapView = { minX: 0, minY: 0, maxX: -1, maxY: -1, scale: 1, offX: 0, offY: 0 }; return; }
+
+  const w = maxX - minX + 1, h = maxY - minY + 1;
+  const scale = MINIMAP_SIZE / Math.max(w, h);
+  minimapView = {
+    minX, minY, maxX, maxY, scale,
+    offX: (MINIMAP_SIZE - w * scale) / 2,
+    offY: (MINIMAP_SIZE - h * scale) / 2,
+  };
+  for (const tile of conn.db.nearbyTiles.iter()) paintMinimapTile(tile);
+}
+
+// Called every frame from render(); does nothing unless something changed
+function updateMinimap() {
+  if (!conn || !minimapVisible) return;
+  const now = Date.now();
+  if (now - minimapLastDraw < MINIMAP_REDRAW_MS) return;
+
+  const camKey = `${camX},${camY},${zoom},${canvas.width},${canvas.height}`;
+  if (!minimapTerrainStale && !minimapDirty && camKey === minimapLastCam) return;
+  if (minimapTerrainStale) repaintMinimapTerrain();
+  minimapLastDraw = now;
+  minimapLastCam = camKey;
+  minimapDirty = false;
+
+  const v = minimapView;
+  const toPx = (x: number, y: number) => [v.offX + (x - v.minX + 0.5) * v.scale, v.offY + (y - v.minY + 0.5) * v.scale];
+  minimapCtx.drawImage(minimapTerrain, 0, 0);
+
+  // Notable ground items
+  const dot = Math.max(2, v.scale);
+  for (const item of conn.db.nearbyItems.iter()) {
+    if (item.carrier) continue;
+    const tags = tagsOf(item.tags);
+    const match = MINIMAP_ITEM_COLORS.find(([tag]) => tags.has(tag));
+    if (!match) continue;
+    const [px, py] = toPx(item.x, item.y);
+    minimapCtx.fillStyle = match[1];
+    minimapCtx.fillRect(px - dot / 2, py - dot / 2, dot, dot);
+  }
+
+  // Agents (ours highlighted)
+  for (const a of [...conn.db.nearbyAgents.iter(), ...conn.db.myAgent.iter()]) {
+    const isMe = myIdentity && a.identity?.isEqual?.(myIdentity);
+    const [px, py] = toPx(a.x, a.y);
+    minimapCtx.fillStyle = isMe ? '#ffcc00' : '#ff4444';
+    minimapCtx.beginPath();
+    minimapCtx.arc(px, py, isMe ? 3 : 2, 0, Math.PI * 2);
+    minimapCtx.fill();
+  }
+
+  // Main camera viewport
+  const halfW = canvas.width / 2 / zoom / TILE_SIZE;
+  const halfH = canvas.height / 2 / zoom / TILE_SIZE;
+  const [cx, cy] = toPx(camX / TILE_SIZE - 0.5, camY / TILE_SIZE - 0.5);
+  minimapCtx.strokeStyle = 'rgba(255,255,255,0.8)';
+  minimapCtx.lineWidth = 1;
+  minimapCtx.strokeRect(cx - halfW * v.scale, cy - halfH * v.scale, halfW * 2 * v.scale, halfH * 2 * v.scale);
+}
+
+function toggleMinimap() {
+  minimapVisible = !minimapVisible;
+  minimapCanvas.style.display = minimapVisible ? 'block' : 'none';
+  minimapDirty = true;
+}
+
+// Click jumps the camera to that tile
+minimapCanvas.addEventListener('click', (e) => {
+  const v = minimapView;
+  if (v.minX > v.maxX) return;
+  cameraFocus = {
+    x: Math.floor(v.minX + (e.offsetX - v.offX) / v.scale),
+    y: Math.floor(v.minY + (e.offsetY - v.offY) / v.scale),
+  };
+});
+
+// ============================================================
+// Event feed (nearby_actions view)
+// ============================================================
+const EVENT_FEED_MAX = 200; // Oldest entries are dropped beyond this
+const eventFeed: any[] = []; // Sorted by timestamp, oldest first
+const eventFeedIds = new Set<string>(); // Views re-fire inserts on re-evaluation - dedupe by id
+const eventFeedRows = new Map<string, HTMLDivElement>(); // Rendered rows by entry id
+const eventActors = new Set<string>();
+const eventActions = new Set<string>();
+
+function addFeedEntry(entry: any) {
+  const id = entry.id.toString();
+  if (eventFeedIds.has(id)) return;
+  eventFeedIds.add(id);
+
+  // Keep sorted: usually appended, but the initial subscription arrives unordered
+  let i = eventFeed.length;
+  while (i > 0 && Number(eventFeed[i - 1].timestamp) > Number(entry.timestamp)) i--;
+  const newest = i === eventFeed.length; // Before trimming: a full feed keeps its length
+  eventFeed.splice(i, 0, entry);
+  while (eventFeed.length > EVENT_FEED_MAX) {
+    const droppedId = eventFeed.shift().id.toString();
+    eventFeedIds.delete(droppedId);
+    eventFeedRows.get(droppedId)?.remove();
+    eventFeedRows.delete(droppedId);
+  }
+
+  addFilterOption(eventFilterActor, eventActors, entry.actorName);
+  addFilterOption(eventFilterAction, eventActions, entry.action);
+
+  if (!eventFeedIds.has(id)) return; // Older than everything in a full feed
+  if (newest) {
+    // Fast path: newest entry, just append
+    if (matchesFeedFilter(entry)) appendFeedRow(entry);
+  } else {
+    rebuildEventFeed(true);
+  }
+}
+
+function addFilterOption(select: HTMLSelectElement, seen: Set<string>, value: string) {
+  if (seen.has(value)) return;
+  seen.add(value);
+  const option = document.createElement('option');
+  option.value = value;
+  option.textContent = value;
+  select.appendChild(option);
+}
+
+function matchesFeedFilter(entry: any): boolean {
+  if (eventFilterActor.value && entry.actorName !== eventFilterActor.value) return false;
+  if (eventFilterAction.value && entry.action !== eventFilterAction.value) return false;
+  return true;
+}
+
+function appendFeedRow(entry: any) {
+  // Stay pinned to the bottom only if the user hasn't scrolled up
+  const atBottom = eventFeedList.scrollTop + eventFeedList.clientHeight >= eventFeedList.scrollHeight - 4;
+
+  const row = document.createElement('div');
+  row.className = 'feed-entry';
+  row.title = `(${entry.x}, ${entry.y}) — click to show`;
+  const time = document.createElement('span');
+  time.className = 'time';
+  time.textContent = formatTime(entry.timestamp);
+  const actor = document.createElement('b');
+  actor.textContent = entry.actorName;
+  const action = document.createElement('span');
+  action.className = 'action';
+  action.textContent = entry.action;
+  row.append(time, ' ', actor, ' ', action);
+  if (entry.details) row.append(` ${entry.details}`);
+  row.addEventListener('click', () => { cameraFocus = { x: entry.x, y: entry.y }; });
+  eventFeedList.appendChild(row);
+  eventFeedRows.set(entry.id.toString(), row);
+
+  if (atBottom) eventFeedList.scrollTop = eventFeedList.scrollHeight;
+}
+
+// keepScroll: leave a reader who scrolled up where they are
+function rebuildEventFeed(keepScroll = false) {
+  const atBottom = eventFeedList.scrollTop + eventFeedList.clientHeight >= eventFeedList.scrollHeight - 4;
+  const scrollTop = eventFeedList.scrollTop;
+  eventFeedList.innerHTML = '';
+  eventFeedRows.clear();
+  for (const entry of eventFeed) {
+    if (matchesFeedFilter(entry)) appendFeedRow(entry);
+  }
+  eventFeedList.scrollTop = keepScroll && !atBottom ? scrollTop : eventFeedList.scrollHeight;
+}
+
+function clearEventFeed() {
+  eventFeed.length = 0;
+  eventFeedIds.clear();
+  eventFeedRows.clear();
+  eventFeedList.innerHTML = '';
+}
+
+// Server timestamps are ms since epoch
+function formatTime(ms: bigint | number): string {
+  return new Date(Number(ms)).toLocaleTimeString([], { hour12: false });
+}
+
+eventFilterActor.addEventListener('change', () => rebuildEventFeed());
+eventFilterAction.addEventListener('change', () => rebuildEventFeed());
+document.getElementById('event-feed-toggle')?.addEventListener('click', (e) => {
+  const collapsed = document.getElementById('event-feed')!.classList.toggle('collapsed');
+  (e.target as HTMLElement).textContent = collapsed ? '[+]' : '[-]';
+});
+
+// ============================================================
+// Chat history (nearby_messages view)
+// ============================================================
+const CHAT_HISTORY_MAX = 300; // Oldest messages are dropped beyond this
+const chatHistory: any[] = []; // Sorted by sentAt, oldest first
+const chatHistoryIds = new Set<string>(); // Views re-fire inserts on re-evaluation - dedupe by id
+const chatLog = document.getElementById('chat-log') as HTMLDivElement;
+const chatLogRows = new Map<string, HTMLDivElement>(); // Message id -> its row in the log
+
+function addChatMessage(msg: any) {
+  const id = msg.id.toString();
+  if (chatHistoryIds.has(id)) return;
+  chatHistoryIds.add(id);
+
+  let i = chatHistory.length;
+  while (i > 0 && Number(chatHistory[i - 1].sentAt) > Number(msg.sentAt)) i--;
+  const next = chatHistory[i]; // Row to insert before; none when it's the newest
+  chatHistory.splice(i, 0, msg);
+  while (chatHistory.length > CHAT_HISTORY_MAX) {
+    const droppedId = chatHistory.shift().id.toString();
+    chatHistoryIds.delete(droppedId);
+    chatLogRows.get(droppedId)?.remove();
+    chatLogRows.delete(droppedId);
+  }
+  if (!chatHistoryIds.has(id)) return; // Older than everything in a full log
+
+  insertChatRow(msg, next ? chatLogRows.get(next.id.toString()) ?? null : null);
+}
+
+function insertChatRow(msg: any, before: HTMLDivElement | null) {
+  // Stay pinned to the bottom only if the user hasn't scrolled up
+  const atBottom = chatLog.scrollTop + chatLog.clientHeight >= chatLog.scrollHeight - 4;
+
+  const row = document.createElement('div');
+  row.className = 'chat-entry';
+  const time = document.createElement('span');
+  time.className = 'time';
+  time.textContent = formatTime(msg.sentAt);
+  const sender = document.createElement('b');
+  sender.className = 'sender';
+  sender.textContent = msg.senderName;
+  sender.title = 'Click to show';
+  sender.addEventListener('click', () => focusChatSender(msg));
+  row.append(time, ' ', sender, `: ${msg.text}`);
+  chatLog.insertBefore(row, before);
+  chatLogRows.set(msg.id.toString(), row);
+
+  if (atBottom) chatLog.scrollTop = chatLog.scrollHeight;
+}
+
+function clearChatHistory() {
+  chatHistory.length = 0;
+  chatHistoryIds.clear();
+  chatLogRows.clear();
+  chatLog.innerHTML = '';
+}
+
+// Centre on the sender where they are now, or where they spoke if out of sight
+function focusChatSender(msg: any) {
+  if (!conn) return;
+  for (const a of [...conn.db.myAgent.iter(), ...conn.db.nearbyAgents.iter()]) {
+    if (a.identity?.isEqual?.(msg.sender)) {
+      cameraFocus = { x: a.x, y: a.y };
+      return;
+    }
+  }
+  cameraFocus = { x: msg.x, y: msg.y };
+}
+
+document.getElementById('chat-box-toggle')?.addEventListener('click', (e) => {
+  const collapsed = chatBox.classList.toggle('collapsed');
+  (e.target as HTMLElement).textContent = collapsed ? '[+]' : '[-]';
+});
+
+// ============================================================
+// Inspector (click a tile to see its tags, item stack and agents)
+// ============================================================
+const INSPECTOR_REFRESH_MS = 250; // Live refresh while open, without rebuilding every frame
+const CLICK_SLOP_PX = 4; // Mouse travel below this is a click, above is a drag
+const inspectorDiv = document.getElementById('inspector') as HTMLDivElement;
+let inspectedTile: { x: number; y: number } | null = null;
+let inspectorLastRefresh = 0;
+
+// Screen (client) coordinates -> tile coordinates through the camera/zoom transform
+function screenToTile(clientX: number, clientY: number): { x: number; y: number } {
+  const rect = canvas.getBoundingClientRect();
+  const worldX = camX + (clientX - rect.left - canvas.width / 2) / zoom;
+  const worldY = camY + (clientY - rect.top - canvas.height / 2) / zoom;
+  return { x: Math.floor(worldX / TILE_SIZE), y: Math.floor(worldY / TILE_SIZE) };
+}
+
+// Ground items on a tile in render() stack order (lower id = bottom)
+function getGroundStackAt(x: number, y: number): any[] {
+  if (!conn) return [];
+  const stack: any[] = [];
+  for (const item of conn.db.nearbyItems.iter()) {
+    if (!item.carrier && item.x === x && item.y === y) stack.push(item);
+  }
+  return stack.sort((a, b) => Number(a.id) - Number(b.id));
+}
+
+function getAgentsAt(x: number, y: number): any[] {
+  if (!conn) return [];
+  const seen = new Set<string>();
+  const agents: any[] = [];
+  for (const a of [...conn.db.myAgent.iter(), ...conn.db.nearbyAgents.iter()]) {
+    const key = a.identity?.toHexString?.() ?? a.name;
+    if (a.x !== x || a.y !== y || seen.has(key)) continue;
+    seen.add(key);
+    agents.push(a);
+  }
+  return agents;
+}
+
+function openInspector(x: number, y: number) {
+  inspectedTile = { x, y };
+  inspectorLastRefresh = 0;
+  inspectorDiv.style.display = 'block';
+  updateInspector();
+}
+
+function closeInspector() {
+  inspectedTile = null;
+  inspectorDiv.style.display = 'none';
+}
+
+function updateInspector() {
+  if (!inspectedTile || !conn) return;
+  const now = Date.now();
+  if (now - inspectorLastRefresh < INSPECTOR_REFRESH_MS) return;
+  inspectorLastRefresh = now;
+  const { x, y } = inspectedTile;
+
+  let tile: any = null;
+  for (const t of conn.db.nearbyTiles.iter()) {
+    if (t.x === x && t.y === y) { tile = t; break; }
+  }
+
+  let html = `<div class="panel-header"><span class="title">Tile (${x}, ${y})</span><span class="close" onclick="window.__closeInspector()">[x]</span></div>`;
+  html += tile ? renderTagTable(tile.tags) : '<div class="muted">Not visible</div>';
+
+  const stack = getGroundStackAt(x, y);
+  html += `<h4>Items (${stack.length}, bottom → top)</h4>`;
+  for (const item of stack) {
+    html += `<div class="entity">${getItemIcon(item.tags)} <b>${escapeHtml(getItemName(item.tags))}</b> <span class="muted">#${item.id}</span></div>`;
+    html += renderTagTable(item.tags);
+  }
+
+  const agents = getAgentsAt(x, y);
+  if (agents.length > 0) html += `<h4>Agents</h4>`;
+  for (const a of agents) {
+    const ago = Math.max(0, Math.floor((now - Number(a.lastActionAt)) / 1000));
+    const id = a.identity?.toHexString?.() ?? '';
+    html += `<div class="entity"><b>${escapeHtml(a.name)}</b> <span class="muted">${id.substring(0, 8)} · acted ${ago}s ago</span>`;
+    if (id) html += ` <span class="link" onclick="window.__openAgentProfile('${id}')">profile</span>`;
+    html += `</div>`;
+    html += renderTagTable(a.tags);
+  }
+
+  inspectorDiv.innerHTML = html;
+}
+
+// One row per tag with its parsed value (numbers, string values, flags)
+function renderTagTable(tags: string): string {
+  const parsed = tagsOf(tags);
+  if (parsed.map.size === 0) return '<div class="muted">No tags</div>';
+  let html = '<table class="tags">';
+  for (const [k, v] of parsed.map) {
+    let key = k, value: string;
+    if (typeof v === 'number') {
+      value = String(v);
+      if (k === 'born_at' && v > 0) value += ` <span class="muted">(${formatDuration(Date.now() - v)} ago)</span>`;
+    } else if (k.includes(':')) {
+      // Non-numeric key:value, stored as a whole-token flag
+      key = k.substring(0, k.indexOf(':'));
+      value = escapeHtml(k.substring(k.indexOf(':') + 1));
+    } else {
+      value = '✓';
+    }
+    html += `<tr><td>${escapeHtml(key)}</td><td>${value}</td></tr>`;
+  }
+  return html + '</table>';
+}
+
+function formatDuration(ms: number): string {
+  const secs = Math.floor(ms / 1000);
+  const mins = Math.floor(secs / 60);
+  const hours = Math.floor(mins / 60);
+  if (hours > 0) return `${hours}h${mins % 60}m`;
+  return mins > 0 ? `${mins}m${secs % 60}s` : `${secs}s`;
+}
+
+// ============================================================
+// Click-to-move (A* over nearby_tiles / nearby_items)
+// ============================================================
+const PATH_MAX_NODES = 20000; // Search budget (~the whole 9x9 chunk area)
+const WALK_CONFIRM_TIMEOUT_MS = 2000; // Move not confirmed by lastActionAt in time -> give up
+const DIRECTIONS: [string, number, number][] = [['north', 0, -1], ['south', 0, 1], ['west', -1, 0], ['east', 1, 0]];
+
+type WalkState = {
+  path: { x: number; y: number }[]; // Remaining steps, excluding the current tile
+  goal: { x: number; y: number };
+  pendingActionAt: number | null; // lastActionAt when the in-flight move was sent
+  sentAt: number;
+};
+let walk: WalkState | null = null;
+
+// Unknown tiles, water and blocking ground items (walls, rocks, ...) are impassable
+function buildPassability(): (x: number, y: number) => boolean {
+  const open = new Set<string>();
+  if (conn) {
+    for (const tile of conn.db.nearbyTiles.iter()) {
+      if (tagsOf(tile.tags).surface !== 'water') open.add(`${tile.x},${tile.y}`);
+    }
+    for (const item of conn.db.nearbyItems.iter()) {
+      if (!item.carrier && tagsOf(item.tags).blocking) open.delete(`${item.x},${item.y}`);
+    }
+  }
+  return (x, y) => open.has(`${x},${y}`);
+}
+
+// A* on the 4-connected grid. A blocked goal (e.g. clicking a tree) ends the path next to it.
+function findPath(sx: number, sy: number, gx: number, gy: number, passable: (x: number, y: number) => boolean): { x: number; y: number }[] | null {
+  const goalBlocked = !passable(gx, gy);
+  const h = (x: number, y: number) => Math.abs(x - gx) + Math.abs(y - gy);
+  const startKey = `${sx},${sy}`;
+  const gScore = new Map<string, number>([[startKey, 0]]);
+  const cameFrom = new Map<string, string>();
+  const heap: [number, number, number][] = [[h(sx, sy), sx, sy]]; // [f, x, y], binary min-heap on f
+  let expanded = 0;
+
+  while (heap.length > 0 && expanded++ < PATH_MAX_NODES) {
+    const [f, x, y] = heapPop(heap);
+    const key = `${x},${y}`;
+    const g = gScore.get(key)!;
+    if (f > g + h(x, y)) continue; // Stale entry, a shorter route was found since
+    const reached = goalBlocked ? h(x, y) === 1 : x === gx && y === gy;
+    if (reached) {
+      const path: { x: number; y: number }[] = [];
+      for (let k: string | undefined = key; k && k !== startKey; k = cameFrom.get(k)) {
+        const [px, py] = k.split(',').map(Number);
+        path.unshift({ x: px, y: py });
+      }
+      return path;
+    }
+    for (const [, dx, dy] of DIRECTIONS) {
+      const nx = x + dx, ny = y + dy;
+      if (!passable(nx, ny)) continue;
+      const nKey = `${nx},${ny}`;
+      if (g + 1 >= (gScore.get(nKey) ?? Infinity)) continue;
+      gScore.set(nKey, g + 1);
+      cameFrom.set(nKey, key);
+      heapPush(heap, [g + 1 + h(nx, ny), nx, ny]);
+    }
+  }
+  return null;
+}
+
+function heapPush(heap: [number, number, number][], node: [number, number, number]) {
+  heap.push(node);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent][0] <= heap[i][0]) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function heapPop(heap: [number, number, number][]): [number, number, number] {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const l = i * 2 + 1, r = l + 1;
+      let min = i;
+      if (l < heap.length && heap[l][0] < heap[min][0]) min = l;
+      if (r < heap.length && heap[r][0] < heap[min][0]) min = r;
+      if (min === i) break;
+      [heap[min], heap[i]] = [heap[i], heap[min]];
+      i = min;
+    }
+  }
+  return top;
+}
+
+function startWalk(gx: number, gy: number) {
+  const agent = getMyAgent();
+  if (!agent || !playing) return;
+  const path = findPath(agent.x, agent.y, gx, gy, buildPassability());
+  if (!path || path.length === 0) {
+    console.log(`No path to (${gx}, ${gy})`);
+    walk = null;
+    return;
+  }
+  walk = { path, goal: { x: gx, y: gy }, pendingActionAt: null, sentAt: 0 };
+  cameraFocus = null; // Follow the agent while walking
+}
+
+function cancelWalk(reason: string) {
+  console.log('Click-to-move cancelled:', reason);
+  walk = null;
+}
+
+// Called every frame: one move per server-confirmed action, respecting the cooldown
+function updateWalk() {
+  if (!walk || !conn) return;
+  const agent = getMyAgent();
+  if (!agent || !playing) { walk = null; return; }
+  const now = Date.now();
+
+  if (walk.pendingActionAt !== null) {
+    if (Number(agent.lastActionAt) <= walk.pendingActionAt) {
+      if (now - walk.sentAt > WALK_CONFIRM_TIMEOUT_MS) cancelWalk('move not confirmed');
+      return;
+    }
+    // Confirmed - did we end up where we meant to?
+    walk.pendingActionAt = null;
+    if (agent.x === walk.path[0].x && agent.y === walk.path[0].y) walk.path.shift();
+    else {
+      const path = findPath(agent.x, agent.y, walk.goal.x, walk.goal.y, buildPassability());
+      if (!path) { cancelWalk('path blocked'); return; }
+      walk.path = path;
+    }
+  }
+
+  if (walk.path.length === 0) { walk = null; return; }
+  if (now - lastActionTime < ACTION_INTERVAL_MS) return; // Server cooldown still running
+
+  const next = walk.path[0];
+  if (!buildPassability()(next.x, next.y)) {
+    // Something moved into the way - try around it once
+    const path = findPath(agent.x, agent.y, walk.goal.x, walk.goal.y, buildPassability());
+    if (!path || path.length === 0) { cancelWalk('path blocked'); return; }
+    walk.path = path;
+  }
+  const step = walk.path[0];
+  const dir = DIRECTIONS.find(([, dx, dy]) => agent.x + dx === step.x && agent.y + dy === step.y);
+  if (!dir) { cancelWalk('off path'); return; }
+  walk.pendingActionAt = Number(agent.lastActionAt);
+  walk.sentAt = now;
+  conn.reducers.move({ direction: dir[0] });
+}
+
+// Remaining path as a dotted line from the agent to the goal
+function drawWalkPath() {
+  const agent = getMyAgent();
+  if (!walk || !agent || walk.path.length === 0) return;
+  const c = (v: number) => v * TILE_SIZE + TILE_SIZE / 2;
+  ctx2d.strokeStyle = 'rgba(255,255,255,0.7)';
+  ctx2d.lineWidth = 2;
+  ctx2d.setLineDash([4, 4]);
+  ctx2d.beginPath();
+  ctx2d.moveTo(c(agent.x), c(agent.y));
+  for (const p of walk.path) ctx2d.lineTo(c(p.x), c(p.y));
+  ctx2d.stroke();
+  ctx2d.setLineDash([]);
+  const end = walk.path[walk.path.length - 1];
+  ctx2d.fillStyle = '#ffcc00';
+  ctx2d.beginPath();
+  ctx2d.arc(c(end.x), c(end.y), 4, 0, Math.PI * 2);
+  ctx2d.fill();
+}
+
+// ============================================================
+// Rules browser (rule / worldrule tables)
+// ============================================================
+const rulesPanel = document.getElementById('rules-panel') as HTMLDivElement;
+let rulesVisible = false;
+let rulesVersion = 0; // Bumped by table callbacks
+let rulesRenderKey = ''; // Rebuild only when rules, selection or facing target change
+
+// Separate subscription: if these tables aren't public, the world views still work
+function subscribeRules(c: DbConnection) {
+  c.db.rule.onInsert(() => { rulesVersion++; });
+  c.db.rule.onDelete(() => { rulesVersion++; });
+  c.db.worldrule.onInsert(() => { rulesVersion++; });
+  c.db.worldrule.onUpdate(() => { rulesVersion++; });
+  c.db.worldrule.onDelete(() => { rulesVersion++; });
+  c.subscriptionBuilder()
+    .onApplied(() => { rulesVersion++; })
+    .onError((ctx) => console.warn('Rules subscription failed:', ctx.event))
+    .subscribe(['SELECT * FROM rule', 'SELECT * FROM worldrule']);
+}
+
+// Empty or "*" matches anything (e.g. bare-hand rules)
+function ruleTagMatches(tags: ParsedTags | null, tag: string): boolean {
+  if (!tag || tag === '*') return true;
+  return !!tags && tags.has(tag);
+}
+
+// Bare hands (null) only satisfy wildcard actor tags
+function ruleActorMatches(actorTags: ParsedTags | null, tag: string): boolean {
+  return actorTags ? ruleTagMatches(actorTags, tag) : !tag || tag === '*';
+}
+
+// 'name:pickaxe' -> 'pickaxe'; other tags as-is
+function describeTag(tag: string): string {
+  if (!tag || tag === '*') return 'anything';
+  return tag.startsWith('name:') ? tag.substring(5) : tag;
+}
+
+// Tile in front of our agent (last move direction, south by default)
+function getFacingTile(agent: any): { x: number; y: number } {
+  const motion = agentMotions.get(agent.identity?.toHexString?.() ?? agent.name);
+  const fx = motion ? motion.facingX : 0;
+  const fy = motion ? motion.facingY : 1;
+  return { x: agent.x + fx, y: agent.y + fy };
+}
+
+function getSelectedItem(): any | null {
+  return selectedSlot > 0 ? getInventory()[selectedSlot - 1] ?? null : null;
+}
+
+function updateRulesPanel() {
+  if (!rulesVisible || !conn) return;
+  const agent = getMyAgent();
+  const selected = getSelectedItem();
+  const facing = agent ? getFacingTile(agent) : null;
+  // Items and agents on the faced tile are the possible targets
+  const targets: ParsedTags[] = [];
+  if (facing) {
+    for (const item of getGroundStackAt(facing.x, facing.y)) targets.push(tagsOf(item.tags));
+    for (const a of getAgentsAt(facing.x, facing.y)) targets.push(tagsOf(a.tags));
+  }
+
+  const key = `${rulesVersion}|${selected?.tags ?? 'hands'}|${targets.map(tg => [...tg.map.keys()].join(',')).join(';')}`;
+  if (key === rulesRenderKey) return;
+  rulesRenderKey = key;
 
-  // HUD
-  drawHUD();
-  drawLeaderboard();
+  const actorTags = selected ? tagsOf(selected.tags) : null;
+  const rules = [...conn.db.rule.iter()].map(r => {
+    const actorHit = ruleActorMatches(actorTags, r.actorTag);
+    const targetHit = targets.some(tg => ruleTagMatches(tg, r.targetTag));
+    return { r, actorHit, targetHit };
+  });
+  // Rules usable right now first, then ones matching the selected item, then the rest
+  const rank = (x: { actorHit: boolean; targetHit: boolean }) => (x.actorHit && x.targetHit ? 0 : x.actorHit ? 1 : x.targetHit ? 2 : 3);
+  rules.sort((a, b) => rank(a) - rank(b) || Number(a.r.id) - Number(b.r.id));
 
-  requestAnimationFrame(render);
+  const selName = selected ? getItemName(selected.tags) : 'bare hands';
+  let html = `<div class="panel-header"><span class="title">Recipes &amp; rules</span><span class="close" onclick="window.__toggleRules()">[x]</span></div>`;
+  html += `<div class="muted">Holding <b>${escapeHtml(selName)}</b>${facing ? `, facing (${facing.x}, ${facing.y})` : ''}</div>`;
+  html += `<h4>Use rules</h4>`;
+  if (rules.length === 0) html += `<div class="muted">No rules visible</div>`;
+  for (const { r, actorHit, targetHit } of rules) {
+    const cls = actorHit && targetHit ? 'rule ready' : actorHit ? 'rule held' : targetHit ? 'rule target' : 'rule';
+    html += `<div class="${cls}"><b>${escapeHtml(describeTag(r.actorTag))}</b> on <b>${escapeHtml(describeTag(r.targetTag))}</b> → ${escapeHtml(r.effect)}`;
+    if (r.params) html += ` <span class="muted">${escapeHtml(r.params)}</span>`;
+    html += `</div>`;
+  }
+
+  html += `<h4>World rules</h4>`;
+  const worldRules = [...conn.db.worldrule.iter()].sort((a, b) => Number(a.id) - Number(b.id));
+  if (worldRules.length === 0) html += `<div class="muted">No world rules visible</div>`;
+  for (const w of worldRules) {
+    html += `<div class="rule"><b>${escapeHtml(describeTag(w.sourceTag))}</b> → ${escapeHtml(w.effect)}`;
+    if (w.params) html += ` <span class="muted">${escapeHtml(w.params)}</span>`;
+    html += ` <span class="muted">(chance ${w.chance})</span></div>`;
+  }
+  rulesPanel.innerHTML = html;
 }
 
-function drawItem(item: any, stackIndex: number = 0, stackSize: number = 1) {
-  // Stack offset: each item in stack is offset slightly up-left
-  // Bottom item (index 0) is at base, top item (highest index) is offset most
-  const stackOffset = 2; // pixels per stack level
-  const offsetX = stackIndex * stackOffset;
-  const offsetY = -stackIndex * stackOffset; // negative = up
+function toggleRulesPanel() {
+  rulesVisible = !rulesVisible;
+  rulesPanel.style.display = rulesVisible ? 'block' : 'none';
+  rulesRenderKey = '';
+}
 
-  const cx = item.x * TILE_SIZE + TILE_SIZE / 2 + offsetX;
-  const cy = item.y * TILE_SIZE + TILE_SIZE / 2 + offsetY;
-  const tags = parseTags(item.tags);
+// ============================================================
+// Use preview (what F will do in each direction)
+// ============================================================
+const USE_TARGETS: [string, number, number][] = [...DIRECTIONS, ['here', 0, 0]];
 
-  if (tags.has('name:tree')) {
-    // Dark green circle
-    ctx2d.fillStyle = '#2d5a1e';
-    ctx2d.beginPath();
-    ctx2d.arc(cx, cy - 4, 10, 0, Math.PI * 2);
-    ctx2d.fill();
-    ctx2d.fillStyle = '#5c3a1e';
-    ctx2d.fillRect(cx - 2, cy + 2, 4, 10);
-  } else if (tags.has('name:berry_bush')) {
-    ctx2d.fillStyle = '#3a8a2e';
-    ctx2d.beginPath();
-    ctx2d.arc(cx, cy, 8, 0, Math.PI * 2);
-    ctx2d.fill();
-    if (tags.has('harvestable')) {
-      // Red dots
-      for (const [ox, oy] of [[-3,-3],[3,-2],[0,3],[4,1]]) {
-        ctx2d.fillStyle = '#cc2222';
-        ctx2d.beginPath();
-        ctx2d.arc(cx + ox, cy + oy, 2, 0, Math.PI * 2);
-        ctx2d.fill();
-      }
-    }
-  } else if (tags.has('name:sword')) {
-    ctx2d.fillStyle = '#c0c0c0';
-    ctx2d.fillRect(cx - 1, cy - 8, 3, 16);
-    ctx2d.fillStyle = '#8b6914';
-    ctx2d.fillRect(cx - 4, cy + 4, 9, 3);
-  } else if (tags.has('name:axe')) {
-    ctx2d.fillStyle = '#8b6914';
-    ctx2d.fillRect(cx - 1, cy - 6, 3, 14);
-    ctx2d.fillStyle = '#808080';
-    ctx2d.fillRect(cx + 2, cy - 6, 6, 8);
-  } else if (tags.has('name:berries')) {
-    ctx2d.fillStyle = '#cc2222';
-    ctx2d.beginPath();
-    ctx2d.arc(cx, cy, 4, 0, Math.PI * 2);
-    ctx2d.fill();
-  } else if (tags.has('name:wood')) {
-    ctx2d.fillStyle = '#8b6914';
-    ctx2d.fillRect(cx - 6, cy - 2, 12, 5);
-  } else if (tags.has('name:pickaxe')) {
-    // Pickaxe: brown handle + gray head
-    ctx2d.fillStyle = '#8b6914';
-    ctx2d.fillRect(cx - 1, cy - 6, 3, 14);
-    ctx2d.fillStyle = '#606060';
-    ctx2d.beginPath();
-    ctx2d.moveTo(cx - 6, cy - 6);
-    ctx2d.lineTo(cx + 6, cy - 6);
-    ctx2d.lineTo(cx + 4, cy - 2);
-    ctx2d.lineTo(cx - 4, cy - 2);
-    ctx2d.closePath();
-    ctx2d.fill();
-  } else if (tags.has('name:flint_steel')) {
-    // Flint + steel: gray flint + dark metal
-    ctx2d.fillStyle = '#505050';
-    ctx2d.fillRect(cx - 5, cy - 2, 6, 5);
-    ctx2d.fillStyle = '#333';
-    ctx2d.fillRect(cx + 1, cy - 3, 4, 7);
-  } else if (tags.has('name:bandage')) {
-    // Bandage: white roll with red cross
-    ctx2d.fillStyle = '#f0f0f0';
-    ctx2d.fillRect(cx - 5, cy - 4, 10, 8);
-    ctx2d.fillStyle = '#cc2222';
-    ctx2d.fillRect(cx - 1, cy - 3, 2, 6);
-    ctx2d.fillRect(cx - 3, cy - 1, 6, 2);
-  } else if (tags.has('name:torch')) {
-    // Torch: brown stick, optionally with flame
-    ctx2d.fillStyle = '#6b4423';
-    ctx2d.fillRect(cx - 2, cy - 2, 4, 10);
-    if (tags.has('lit')) {
-      // Flame
-      ctx2d.fillStyle = '#ff6600';
-      ctx2d.beginPath();
-      ctx2d.moveTo(cx, cy - 8);
-      ctx2d.lineTo(cx - 4, cy - 2);
-      ctx2d.lineTo(cx + 4, cy - 2);
-      ctx2d.closePath();
-      ctx2d.fill();
-      ctx2d.fillStyle = '#ffcc00';
-      ctx2d.beginPath();
-      ctx2d.arc(cx, cy - 4, 3, 0, Math.PI * 2);
-      ctx2d.fill();
-    }
-  } else if (tags.has('name:poison_mushroom')) {
-    // Poison mushroom: purple cap with white spots
-    ctx2d.fillStyle = '#6a0dad';
-    ctx2d.beginPath();
-    ctx2d.arc(cx, cy - 2, 7, Math.PI, 0);
-    ctx2d.fill();
-    ctx2d.fillStyle = '#e0e0e0';
-    ctx2d.fillRect(cx - 2, cy - 2, 4, 8);
-    // White spots
-    ctx2d.fillStyle = 'white';
-    ctx2d.beginPath(); ctx2d.arc(cx - 3, cy - 5, 1.5, 0, Math.PI * 2); ctx2d.fill();
-    ctx2d.beginPath(); ctx2d.arc(cx + 2, cy - 4, 1.5, 0, Math.PI * 2); ctx2d.fill();
-  } else if (tags.has('name:rock')) {
-    // Rock: large gray boulder
-    ctx2d.fillStyle = '#707070';
-    ctx2d.beginPath();
-    ctx2d.ellipse(cx, cy, 10, 8, 0, 0, Math.PI * 2);
-    ctx2d.fill();
-    ctx2d.fillStyle = '#505050';
-    ctx2d.beginPath();
-    ctx2d.ellipse(cx + 2, cy + 2, 6, 4, 0.3, 0, Math.PI * 2);
-    ctx2d.fill();
-  } else if (tags.has('name:stone')) {
-    // Stone (mined): small gray rock
-    ctx2d.fillStyle = '#808080';
-    ctx2d.beginPath();
-    ctx2d.ellipse(cx, cy, 5, 4, 0, 0, Math.PI * 2);
-    ctx2d.fill();
-  } else if (tags.has('name:wall')) {
-    // Wall: brick pattern
-    ctx2d.fillStyle = '#8b4513';
-    ctx2d.fillRect(cx - 10, cy - 10, 20, 20);
-    ctx2d.strokeStyle = '#5a2d0a';
-    ctx2d.lineWidth = 1;
-    // Brick lines
-    ctx2d.beginPath();
-    ctx2d.moveTo(cx - 10, cy - 3); ctx2d.lineTo(cx + 10, cy - 3);
-    ctx2d.moveTo(cx - 10, cy + 4); ctx2d.lineTo(cx + 10, cy + 4);
-    ctx2d.moveTo(cx, cy - 10); ctx2d.lineTo(cx, cy - 3);
-    ctx2d.moveTo(cx - 5, cy - 3); ctx2d.lineTo(cx - 5, cy + 4);
-    ctx2d.moveTo(cx + 5, cy - 3); ctx2d.lineTo(cx + 5, cy + 4);
-    ctx2d.moveTo(cx, cy + 4); ctx2d.lineTo(cx, cy + 10);
-    ctx2d.stroke();
-  } else if (tags.has('name:wall_kit')) {
-    // Wall kit: small brick icon
-    ctx2d.fillStyle = '#a0522d';
-    ctx2d.fillRect(cx - 5, cy - 4, 10, 8);
-    ctx2d.strokeStyle = '#5a2d0a';
-    ctx2d.lineWidth = 1;
-    ctx2d.strokeRect(cx - 5, cy - 4, 10, 8);
-    ctx2d.beginPath();
-    ctx2d.moveTo(cx - 5, cy); ctx2d.lineTo(cx + 5, cy);
-    ctx2d.moveTo(cx, cy - 4); ctx2d.lineTo(cx, cy);
-    ctx2d.stroke();
-  } else if (tags.has('name:fire') || tags.has('burning')) {
-    // Fire: animated flame
-    ctx2d.fillStyle = '#ff4400';
-    ctx2d.beginPath();
-    ctx2d.moveTo(cx, cy - 10);
-    ctx2d.quadraticCurveTo(cx - 8, cy, cx - 5, cy + 6);
-    ctx2d.lineTo(cx + 5, cy + 6);
-    ctx2d.quadraticCurveTo(cx + 8, cy, cx, cy - 10);
-    ctx2d.fill();
-    ctx2d.fillStyle = '#ffcc00';
-    ctx2d.beginPath();
-    ctx2d.moveTo(cx, cy - 5);
-    ctx2d.quadraticCurveTo(cx - 4, cy + 2, cx - 2, cy + 4);
-    ctx2d.lineTo(cx + 2, cy + 4);
-    ctx2d.quadraticCurveTo(cx + 4, cy + 2, cx, cy - 5);
-    ctx2d.fill();
-  } else {
-    ctx2d.fillStyle = '#ffff00';
-    ctx2d.font = '10px monospace';
-    ctx2d.fillText('?', cx - 3, cy + 3);
-  }
+interface UsePreview {
+  target: string; // north/south/west/east/here/self
+  x: number; y: number;
+  effect: string | null; // null = no matching rule, the action would be wasted
+  params: string;
+  targetName: string | null;
+}
+let usePreview: UsePreview[] = []; // Recomputed every frame while in use mode
 
-  // Draw item label below (only for top item in stack, if enabled)
-  if (showItemLabels && stackIndex === stackSize - 1) {
-    const name = getItemNameFromTags(tags);
-    if (name && name !== '?') {
-      ctx2d.font = '7px monospace';
-      ctx2d.textAlign = 'center';
-      ctx2d.fillStyle = 'rgba(255,255,255,0.9)';
-      ctx2d.strokeStyle = 'rgba(0,0,0,0.7)';
-      ctx2d.lineWidth = 2;
-      // Position at bottom of tile, truncate if too long
-      const displayName = name.length > 6 ? name.substring(0, 5) + '..' : name;
-      const labelY = item.y * TILE_SIZE + TILE_SIZE - 2;
-      ctx2d.strokeText(displayName, cx, labelY);
-      ctx2d.fillText(displayName, cx, labelY);
-    }
+function getTileAt(x: number, y: number): any | null {
+  const chunk = chunkCaches.get(`${Math.floor(x / CHUNK_SIZE)},${Math.floor(y / CHUNK_SIZE)}`);
+  if (!chunk) return null;
+  for (const tile of chunk.tiles.values()) {
+    if (tile.x === x && tile.y === y) return tile;
   }
+  return null;
 }
 
-// Extract item name from parsed tags
-function getItemNameFromTags(tags: Map<string, string | number | true>): string {
-  for (const [k] of tags) {
-    if (k.startsWith('name:')) return k.substring(5);
+// Possible targets of use() at a tile: items top of stack first, then agents, then the tile itself
+function getUseCandidates(x: number, y: number, me: any): { tags: ParsedTags; name: string }[] {
+  const candidates: { tags: ParsedTags; name: string }[] = [];
+  for (const item of getGroundStackAt(x, y).reverse()) {
+    const tags = tagsOf(item.tags);
+    candidates.push({ tags, name: getItemDisplayName(tags) });
   }
-  return '?';
+  const myKey = me.identity?.toHexString?.();
+  for (const a of getAgentsAt(x, y)) {
+    if (myKey && a.identity?.toHexString?.() === myKey) continue;
+    candidates.push({ tags: tagsOf(a.tags), name: a.name || tagsOf(a.tags).name || 'agent' });
+  }
+  const tile = getTileAt(x, y);
+  if (tile) {
+    const tileTags = tagsOf(tile.tags);
+    candidates.push({ tags: tileTags, name: tileTags.surface || 'ground' });
+  }
+  return candidates;
 }
 
-function drawAgent(a: any) {
-  const cx = a.x * TILE_SIZE + TILE_SIZE / 2;
-  const cy = a.y * TILE_SIZE + TILE_SIZE / 2;
-  const isMe = myIdentity && a.identity?.isEqual?.(myIdentity);
+function computeUsePreview(): UsePreview[] {
+  const agent = getMyAgent();
+  if (!conn || !agent) return [];
+  const selected = getSelectedItem();
+  const actorTags = selected ? tagsOf(selected.tags) : null;
+  // Lowest rule id first, mirroring the table order the server scans
+  const rules = [...conn.db.rule.iter()]
+    .filter(r => ruleActorMatches(actorTags, r.actorTag))
+    .sort((a, b) => Number(a.id) - Number(b.id));
 
-  // Body (crab = small head up + two tail segments decreasing)
-  ctx2d.fillStyle = isMe ? '#ff4444' : '#cc3333';
-  // Tail segment 2 (smallest, back)
-  ctx2d.beginPath();
-  ctx2d.arc(cx, cy + 10, 3, 0, Math.PI * 2);
-  ctx2d.fill();
-  // Tail segment 1 (medium)
-  ctx2d.beginPath();
-  ctx2d.arc(cx, cy + 4, 5, 0, Math.PI * 2);
-  ctx2d.fill();
-  // Main body (head, smaller and higher)
-  ctx2d.beginPath();
-  ctx2d.arc(cx, cy - 4, 8, 0, Math.PI * 2);
-  ctx2d.fill();
-  // Outline for main body
-  ctx2d.strokeStyle = isMe ? '#ffcc00' : '#000';
-  ctx2d.lineWidth = isMe ? 2 : 1;
-  ctx2d.beginPath();
-  ctx2d.arc(cx, cy - 4, 8, 0, Math.PI * 2);
-  ctx2d.stroke();
+  const resolve = (target: string, x: number, y: number, candidates: { tags: ParsedTags; name: string }[]): UsePreview => {
+    for (const c of candidates) {
+      const rule = rules.find(r => ruleTagMatches(c.tags, r.targetTag));
+      if (rule) return { target, x, y, effect: rule.effect, params: rule.params, targetName: c.name };
+    }
+    return { target, x, y, effect: null, params: '', targetName: candidates[0]?.name ?? null };
+  };
 
-  // Eyes (on smaller raised head)
-  ctx2d.fillStyle = 'white';
-  ctx2d.beginPath(); ctx2d.arc(cx - 3, cy - 6, 2, 0, Math.PI * 2); ctx2d.fill();
-  ctx2d.beginPath(); ctx2d.arc(cx + 3, cy - 6, 2, 0, Math.PI * 2); ctx2d.fill();
-  ctx2d.fillStyle = 'black';
-  ctx2d.beginPath(); ctx2d.arc(cx - 3, cy - 6, 0.8, 0, Math.PI * 2); ctx2d.fill();
-  ctx2d.beginPath(); ctx2d.arc(cx + 3, cy - 6, 0.8, 0, Math.PI * 2); ctx2d.fill();
+  const preview = USE_TARGETS.map(([target, dx, dy]) =>
+    resolve(target, agent.x + dx, agent.y + dy, getUseCandidates(agent.x + dx, agent.y + dy, agent)));
+  const self = resolve('self', agent.x, agent.y, [{ tags: tagsOf(agent.tags), name: 'yourself' }]);
+  // Eating needs no rule
+  if (!self.effect && actorTags?.food) self.effect = 'eat';
+  preview.push(self);
+  return preview;
+}
 
-  // Claws (pincers) - attached to smaller head
-  ctx2d.strokeStyle = isMe ? '#ff4444' : '#cc3333';
-  ctx2d.lineWidth = 2;
-  // Left arm (from head side outward)
-  ctx2d.beginPath(); ctx2d.moveTo(cx - 7, cy - 4); ctx2d.lineTo(cx - 14, cy - 5); ctx2d.stroke();
-  // Left pincer (from middle of arm going UP)
-  ctx2d.beginPath(); ctx2d.moveTo(cx - 10, cy - 4); ctx2d.lineTo(cx - 14, cy - 11); ctx2d.stroke();
-  // Right arm (from head side outward)
-  ctx2d.beginPath(); ctx2d.moveTo(cx + 7, cy - 4); ctx2d.lineTo(cx + 14, cy - 5); ctx2d.stroke();
-  // Right pincer (from middle of arm going UP)
-  ctx2d.beginPath(); ctx2d.moveTo(cx + 10, cy - 4); ctx2d.lineTo(cx + 14, cy - 11); ctx2d.stroke();
+// Overlay the expected effect on the neighbouring tiles and our own
+function drawUsePreview() {
+  for (const p of usePreview) {
+    if (p.target === 'self') continue;
+    const px = p.x * TILE_SIZE, py = p.y * TILE_SIZE;
+    ctx2d.fillStyle = p.effect ? 'rgba(34,204,34,0.25)' : 'rgba(80,80,80,0.35)';
+    ctx2d.fillRect(px, py, TILE_SIZE, TILE_SIZE);
+    ctx2d.strokeStyle = p.effect ? '#22cc22' : '#666';
+    ctx2d.lineWidth = 1;
+    ctx2d.strokeRect(px + 0.5, py + 0.5, TILE_SIZE - 1, TILE_SIZE - 1);
+    ctx2d.font = 'bold 8px monospace';
+    ctx2d.textAlign = 'center';
+    ctx2d.fillStyle = p.effect ? '#fff' : '#999';
+    ctx2d.fillText(p.effect ?? '—', px + TILE_SIZE / 2, py + TILE_SIZE / 2 + 3);
+  }
+}
 
-  // Name
-  ctx2d.fillStyle = 'white';
-  ctx2d.strokeStyle = 'black';
-  ctx2d.lineWidth = 2;
-  ctx2d.font = 'bold 10px monospace';
-  ctx2d.textAlign = 'center';
-  ctx2d.strokeText(a.name, cx, cy - 16);
-  ctx2d.fillText(a.name, cx, cy - 16);
+function formatUsePreview(p: UsePreview): string {
+  if (!p.effect) return `<span style="color:#888">nothing${p.targetName ? ` (${escapeHtml(p.targetName)})` : ''}</span>`;
+  let s = `<b>${escapeHtml(p.effect)}</b>`;
+  if (p.targetName) s += ` ${escapeHtml(p.targetName)}`;
+  if (p.params) s += ` <span style="color:#888">${escapeHtml(p.params)}</span>`;
+  return s;
+}
 
-  // HP bar
-  const hp = getTag(a.tags, 'hp');
-  const barW = 24;
-  const barH = 3;
-  const barX = cx - barW / 2;
-  const barY = cy + 14;
-  ctx2d.fillStyle = '#333';
-  ctx2d.fillRect(barX, barY, barW, barH);
-  ctx2d.fillStyle = hp > 50 ? '#22cc22' : hp > 25 ? '#cccc22' : '#cc2222';
-  ctx2d.fillRect(barX, barY, barW * (hp / 100), barH);
+// ============================================================
+// Reducer feedback (toasts + tile flash)
+// ============================================================
+// Calls that don't act in the world: no success ring, only failure toasts
+const PASSIVE_REDUCERS = new Set(['get_observation', 'enable_test_mode', 'set_cooldown', 'set_worldrule_chance']);
+const TOAST_MS = 3500;
+const TOAST_MAX = 4;
+const toastContainer = document.getElementById('toasts') as HTMLDivElement;
+
+function showToast(text: string) {
+  // Repeated failures (e.g. bumping into water) bump a counter instead of stacking
+  const last = toastContainer.lastElementChild as HTMLDivElement | null;
+  if (last && last.dataset.text === text) {
+    const count = Number(last.dataset.count) + 1;
+    last.dataset.count = String(count);
+    last.textContent = `${text} ×${count}`;
+    clearTimeout(Number(last.dataset.timer));
+    last.dataset.timer = String(setTimeout(() => last.remove(), TOAST_MS));
+    return;
+  }
+  const el = document.createElement('div');
+  el.className = 'toast';
+  el.textContent = text;
+  el.dataset.text = text;
+  el.dataset.count = '1';
+  el.dataset.timer = String(setTimeout(() => el.remove(), TOAST_MS));
+  toastContainer.appendChild(el);
+  while (toastContainer.children.length > TOAST_MAX) toastContainer.firstElementChild!.remove();
 }
 
-function drawHUD() {
+// Tile an action was aimed at: move/use direction relative to our agent
+function actionTargetTile(direction?: string): { x: number; y: number } | null {
   const agent = getMyAgent();
-  if (!agent || !playing) {
-    // Show play button area
-    if (!playing) {
-      playBtn.style.display = 'block';
-    }
+  if (!agent) return null;
+  const dir = USE_TARGETS.find(([name]) => name === direction);
+  return dir ? { x: agent.x + dir[1], y: agent.y + dir[2] } : { x: agent.x, y: agent.y };
+}
+
+function handleReducerResult(ctx: any, reducer: string, direction?: string) {
+  // Only our own calls; other agents' reducers also reach us when they touch our views
+  if (!myIdentity || !ctx.event.callerIdentity.isEqual(myIdentity)) return;
+  const status = ctx.event.status;
+  if (status.tag === 'Committed') {
+    if (PASSIVE_REDUCERS.has(reducer)) return;
+    // Table updates are applied before this fires, so our agent has already moved
+    const here = actionTargetTile();
+    if (here) actionEffect = { type: 'success', x: here.x, y: here.y, time: Date.now() };
     return;
   }
-  playBtn.style.display = 'none';
+  const tile = actionTargetTile(direction);
+  const reason = status.tag === 'Failed' ? status.value : 'Out of energy';
+  console.warn(`${reducer} failed:`, reason);
+  showToast(`${reducer}: ${reason}`);
+  if (tile) actionEffect = { type: 'failed', x: tile.x, y: tile.y, time: Date.now() };
+  // A rejected registration leaves us without an agent: offer Play again
+  if (reducer === 'register' && !getMyAgent()) {
+    playing = false;
+    playBtn.style.display = 'block';
+  }
+}
 
-  const hp = getTag(agent.tags, 'hp');
-  const satiety = getTag(agent.tags, 'satiety');
-  const inv = getInventory();
+function setupReducerCallbacks() {
+  if (!conn) return;
+  const thisConn = conn;
+  const guard = (reducer: string, direction?: (args: any) => string) => (ctx: any, args: any) => {
+    if (conn !== thisConn) return;
+    handleReducerResult(ctx, reducer, direction?.(args));
+  };
+  conn.reducers.onMove(guard('move', args => args.direction));
+  conn.reducers.onTake(guard('take'));
+  conn.reducers.onDrop(guard('drop'));
+  conn.reducers.onUse(guard('use', args => args.target));
+  conn.reducers.onSay(guard('say'));
+  conn.reducers.onRegister(guard('register'));
+  conn.reducers.onEnableTestMode(guard('enable_test_mode'));
+  conn.reducers.onSetCooldown(guard('set_cooldown'));
+  conn.reducers.onTeleport(guard('teleport'));
+  conn.reducers.onSpawnTestItem(guard('spawn_test_item'));
+  conn.reducers.onSetWorldruleChance(guard('set_worldrule_chance'));
+  conn.reducers.onGetObservation(guard('get_observation'));
+}
 
-  let html = `<div class="stat">HP: <span class="bar"><span class="fill hp" style="width:${hp}%"></span></span> ${hp}</div>`;
-  html += `<div class="stat">Satiety: <span class="bar"><span class="fill satiety" style="width:${satiety}%"></span></span> ${satiety}</div>`;
-  html += `<div class="inventory">`;
+// Green ring on success, red tile flash on failure
+function drawActionEffect() {
+  if (!actionEffect) return;
+  const t = (Date.now() - actionEffect.time) / ACTION_EFFECT_DURATION;
+  if (t >= 1) { actionEffect = null; return; }
+  const px = actionEffect.x * TILE_SIZE, py = actionEffect.y * TILE_SIZE;
+  if (actionEffect.type === 'failed') {
+    ctx2d.fillStyle = `rgba(255,40,40,${0.5 * (1 - t)})`;
+    ctx2d.fillRect(px, py, TILE_SIZE, TILE_SIZE);
+    ctx2d.strokeStyle = `rgba(255,60,60,${1 - t})`;
+    ctx2d.lineWidth = 2;
+    ctx2d.strokeRect(px + 1, py + 1, TILE_SIZE - 2, TILE_SIZE - 2);
+  } else {
+    ctx2d.strokeStyle = `rgba(102,255,102,${1 - t})`;
+    ctx2d.lineWidth = 2;
+    ctx2d.beginPath();
+    ctx2d.arc(px + TILE_SIZE / 2, py + TILE_SIZE / 2, TILE_SIZE * (0.3 + 0.4 * t), 0, Math.PI * 2);
+    ctx2d.stroke();
+  }
+}
 
-  // Slot 0: Bare hands (same format as other slots: number + icon)
-  const bareHandsSel = selectedSlot === 0 ? ' selected' : '';
-  html += `<div class="slot${bareHandsSel}" onclick="window.__selectSlot(0)" title="Bare hands (punch/interact)">0<br>${getHandIcon()}</div>`;
+// ============================================================
+// Observation inspector (what the AI agent "sees")
+// ============================================================
+const OBSERVATION_OPEN_DEPTH = 2; // Levels expanded the first time a node is shown
+const observationPanel = document.getElementById('observation-panel') as HTMLDivElement;
+const observationTree = document.getElementById('observation-tree') as HTMLDivElement;
+const observationMeta = document.getElementById('observation-meta') as HTMLSpanElement;
+let observationVisible = false;
+let observationSubConn: DbConnection | null = null; // Connection my_observation is subscribed on
+let observationJson: string | null = null; // Blob the tree was built from
+let observationHoverPath: string | null = null;
+const observationOpenPaths = new Map<string, boolean>(); // Survives rebuilds of the tree
 
-  // Slots 1-8: Inventory
-  for (let i = 0; i < 8; i++) {
-    const item = inv[i];
-    const sel = (i + 1) === selectedSlot ? ' selected' : '';
-    const icon = item ? getItemIcon(item.tags) : '';
-    const label = item ? getItemName(item.tags) : '';
-    html += `<div class="slot${sel}" onclick="window.__selectSlot(${i + 1})" title="${label}">${i + 1}<br>${icon}</div>`;
+// Entities in the observation: any JSON object with numeric x/y
+interface ObservedRef {
+  kind: 'tile' | 'item' | 'agent';
+  x: number; y: number;
+  path: string;
+  known: boolean; // false = the client's views have no such entity there
+}
+let observationRefs: ObservedRef[] = [];
+
+function subscribeObservation() {
+  if (!conn || observationSubConn === conn) return;
+  observationSubConn = conn;
+  const thisConn = conn;
+  conn.subscriptionBuilder()
+    .onApplied(() => { if (conn === thisConn) observationJson = null; })
+    .onError((ctx) => console.warn('Observation subscription failed:', ctx.event))
+    .subscribe(['SELECT * FROM my_observation']);
+}
+
+function requestObservation() {
+  if (!conn) return;
+  subscribeObservation();
+  conn.reducers.getObservation({});
+}
+
+function toggleObservationPanel() {
+  observationVisible = !observationVisible;
+  observationPanel.style.display = observationVisible ? 'block' : 'none';
+  observationHoverPath = null;
+  if (observationVisible) requestObservation();
+}
+
+function classifyRef(obj: any, path: string): ObservedRef {
+  const x = obj.x as number, y = obj.y as number;
+  if (obj.identity !== undefined || obj.hp !== undefined || /agent/i.test(path)) {
+    const id = String(obj.identity ?? '').replace(/^0x/, '');
+    const known = getAgentsAt(x, y).some(a =>
+      id ? a.identity?.toHexString?.() === id : obj.name === undefined || a.name === obj.name);
+    return { kind: 'agent', x, y, path, known };
   }
-  html += `</div>`;
+  if (obj.id !== undefined && (obj.tags !== undefined || /item/i.test(path))) {
+    const known = getGroundStackAt(x, y).some(i => i.id.toString() === String(obj.id));
+    return { kind: 'item', x, y, path, known };
+  }
+  return { kind: 'tile', x, y, path, known: !!getTileAt(x, y) };
+}
 
-  // Selected item info
-  if (selectedSlot === 0) {
-    html += `<div style="margin-top:4px;color:#ffcc00;font-size:12px">Selected: <b>Bare hands</b> — <kbd>F</kbd> to punch/take</div>`;
-  } else {
-    const selItem = inv[selectedSlot - 1];
-    if (selItem) {
-      const name = getItemName(selItem.tags);
-      html += `<div style="margin-top:4px;color:#ffcc00;font-size:12px">Selected: <b>${name}</b> — <kbd>F</kbd> to use, <kbd>Q</kbd> to drop</div>`;
-      if (hasTag(selItem.tags, 'food')) {
-        html += `<div style="color:#88ff88;font-size:11px">Press <kbd>F</kbd> then <kbd>Space</kbd> to eat</div>`;
-      }
+function renderJsonNode(value: any, key: string, path: string, depth: number): string {
+  const label = key ? `<span class="json-key">${escapeHtml(key)}</span>: ` : '';
+  if (value === null || typeof value !== 'object') {
+    const cls = typeof value === 'string' ? 'json-str' : typeof value === 'number' ? 'json-num' : 'json-lit';
+    const text = typeof value === 'string' ? JSON.stringify(value) : String(value);
+    return `<div class="json-leaf">${label}<span class="${cls}">${escapeHtml(text)}</span></div>`;
+  }
+  const isArray = Array.isArray(value);
+  const entries: [string, any][] = isArray ? value.map((v: any, i: number) => [String(i), v]) : Object.entries(value);
+  let cls = '';
+  if (!isArray && typeof value.x === 'number' && typeof value.y === 'number') {
+    const ref = classifyRef(value, path);
+    observationRefs.push(ref);
+    cls = ref.known ? 'json-ref' : 'json-ref missing';
+  }
+  const open = observationOpenPaths.get(path) ?? depth < OBSERVATION_OPEN_DEPTH;
+  const summary = isArray ? `[${entries.length}]` : `{${entries.length}}`;
+  let html = `<details class="${cls}" data-path="${escapeHtml(path)}"${open ? ' open' : ''}><summary>${label}<span class="muted">${summary}</span></summary>`;
+  for (const [k, v] of entries) {
+    html += renderJsonNode(v, k, isArray ? `${path}[${k}]` : `${path}.${k}`, depth + 1);
+  }
+  return html + '</details>';
+}
+
+// Called every frame from render(); rebuilds the tree only when the blob changes
+function updateObservationPanel() {
+  if (!observationVisible || !conn) return;
+  let row: any = null;
+  for (const r of conn.db.myObservation.iter()) { row = r; break; }
+  const age = row ? formatDuration(Date.now() - Number(row.updatedAt)) : null;
+  const meta = row ? `updated ${age} ago · ${observationRefs.length} entities` : 'no observation yet';
+  if (observationMeta.textContent !== meta) observationMeta.textContent = meta;
+
+  const json = row ? row.jsonData : '';
+  if (json === observationJson) return;
+  observationJson = json;
+  observationRefs = [];
+  if (!row) { observationTree.innerHTML = ''; return; }
+  try {
+    observationTree.innerHTML = renderJsonNode(JSON.parse(json), '', '$', 0);
+  } catch (err) {
+    observationTree.innerHTML = `<div class="json-str">Invalid JSON: ${escapeHtml(String(err))}</div><pre>${escapeHtml(json)}</pre>`;
+  }
+}
+
+// Outline referenced entities: magenta when our views agree, red when they don't
+function drawObservationRefs() {
+  if (!observationVisible) return;
+  ctx2d.lineWidth = 2;
+  for (const ref of observationRefs) {
+    const hovered = ref.path === observationHoverPath
+      || (observationHoverPath !== null && ref.path.startsWith(observationHoverPath + '.'));
+    if (observationHoverPath !== null && !hovered) continue;
+    const px = ref.x * TILE_SIZE, py = ref.y * TILE_SIZE;
+    ctx2d.strokeStyle = ref.known ? '#ff66ff' : '#ff3333';
+    ctx2d.setLineDash(ref.known ? [] : [4, 3]);
+    if (ref.kind === 'agent') {
+      ctx2d.beginPath();
+      ctx2d.arc(px + TILE_SIZE / 2, py + TILE_SIZE / 2, TILE_SIZE * 0.55, 0, Math.PI * 2);
+      ctx2d.stroke();
+    } else if (ref.kind === 'item') {
+      ctx2d.strokeRect(px + 6, py + 6, TILE_SIZE - 12, TILE_SIZE - 12);
+    } else {
+      ctx2d.strokeRect(px + 1, py + 1, TILE_SIZE - 2, TILE_SIZE - 2);
     }
   }
+  ctx2d.setLineDash([]);
+}
 
-  if (useMode) html += `<div class="use-hint">USE: W/A/S/D=direction, F=here, Space=self (eat), Esc=cancel</div>`;
+document.getElementById('observation-refresh')!.addEventListener('click', () => requestObservation());
+// 'toggle' doesn't bubble, so listen in the capture phase
+observationTree.addEventListener('toggle', (e) => {
+  const el = e.target as HTMLDetailsElement;
+  if (el.dataset.path) observationOpenPaths.set(el.dataset.path, el.open);
+}, true);
+observationTree.addEventListener('mouseover', (e) => {
+  const el = (e.target as HTMLElement).closest('details.json-ref') as HTMLElement | null;
+  observationHoverPath = el?.dataset.path ?? null;
+});
+observationTree.addEventListener('mouseleave', () => { observationHoverPath = null; });
 
-  // Cooldown indicator (0.5 second = 500ms)
-  const cdRemaining = Math.max(0, 500 - (Date.now() - lastActionTime));
-  if (cdRemaining > 0) {
-    const cdPct = (cdRemaining / 500) * 100;
-    html += `<div class="stat" style="margin-top:6px">Action: <span class="bar"><span class="fill" style="width:${cdPct}%;background:#cc4444"></span></span></div>`;
-  } else {
-    html += `<div class="stat" style="margin-top:6px;color:#66ff66">Action: READY</div>`;
+// ============================================================
+// Admin console (test-mode reducers, local server only)
+// ============================================================
+const ADMIN_TAG_FLAGS = ['food', 'blocking', 'rooted', 'harvestable', 'lit', 'burning'];
+const adminPanel = document.getElementById('admin-panel') as HTMLDivElement;
+const adminCooldown = document.getElementById('admin-cooldown') as HTMLInputElement;
+const adminCooldownValue = document.getElementById('admin-cooldown-value') as HTMLSpanElement;
+const adminSpawnName = document.getElementById('admin-spawn-name') as HTMLInputElement;
+const adminSpawnFlags = document.getElementById('admin-spawn-flags') as HTMLDivElement;
+const adminSpawnExtra = document.getElementById('admin-spawn-extra') as HTMLInputElement;
+const adminSpawnPreview = document.getElementById('admin-spawn-preview') as HTMLDivElement;
+const adminWorldrules = document.getElementById('admin-worldrules') as HTMLDivElement;
+let adminVisible = false;
+let adminClickMode: 'inspect' | 'teleport' | 'spawn' = 'inspect';
+let adminRulesKey = -1; // rulesVersion the worldrule list was built from
+
+// Test-mode reducers must never be reachable against the shared server
+function adminAvailable(): boolean {
+  return isLocalServer();
+}
+
+function toggleAdminPanel() {
+  if (!adminAvailable()) return;
+  adminVisible = !adminVisible;
+  adminPanel.style.display = adminVisible ? 'block' : 'none';
+  if (!adminVisible) adminClickMode = 'inspect';
+  adminRulesKey = -1;
+}
+
+// "name:berry,food,satiety:20" from the builder fields
+function buildSpawnTags(): string {
+  const tags: string[] = [];
+  const name = adminSpawnName.value.trim().replace(/[,\s]+/g, '_');
+  if (name) tags.push(`name:${name}`);
+  for (const box of adminSpawnFlags.querySelectorAll('input:checked')) tags.push((box as HTMLInputElement).value);
+  for (const extra of adminSpawnExtra.value.split(',')) {
+    const tag = extra.trim().replace(/\s+/g, '_');
+    if (tag && !tags.includes(tag)) tags.push(tag);
   }
+  return tags.join(',');
+}
 
-  hud.innerHTML = html;
-  hud.style.display = 'block';
+function updateSpawnPreview() {
+  const tags = buildSpawnTags();
+  adminSpawnPreview.textContent = tags || '(no tags)';
 }
 
-// Icon cache for HUD (data URLs)
-const iconCache = new Map<string, string>();
-const ICON_SIZE = 24;
+function adminSpawnAt(x: number, y: number) {
+  const tags = buildSpawnTags();
+  if (!conn || !tags) { showToast('spawn_test_item: enter at least one tag'); return; }
+  conn.reducers.spawnTestItem({ x, y, tags });
+}
 
-function getItemIconDataUrl(tags: string): string {
-  // Check cache first
-  const cacheKey = tags;
-  if (iconCache.has(cacheKey)) return iconCache.get(cacheKey)!;
+// Map click while the console is open; returns true when it consumed the click
+function handleAdminClick(x: number, y: number): boolean {
+  if (!adminVisible || !conn || adminClickMode === 'inspect') return false;
+  if (adminClickMode === 'teleport') conn.reducers.teleport({ x, y });
+  else adminSpawnAt(x, y);
+  return true;
+}
 
-  // Create offscreen canvas
-  const offscreen = document.createElement('canvas');
-  offscreen.width = ICON_SIZE;
-  offscreen.height = ICON_SIZE;
-  const octx = offscreen.getContext('2d')!;
+// Rebuilt when worldrule rows change, but never under the user's cursor
+function updateAdminPanel() {
+  if (!adminVisible || !conn || adminRulesKey === rulesVersion) return;
+  if (adminWorldrules.contains(document.activeElement)) return;
+  adminRulesKey = rulesVersion;
+  const rows = [...conn.db.worldrule.iter()].sort((a, b) => Number(a.id) - Number(b.id));
+  if (rows.length === 0) { adminWorldrules.innerHTML = '<div class="muted">No world rules visible</div>'; return; }
+  adminWorldrules.innerHTML = rows.map(w => `<div class="worldrule">
+    <span><b>${escapeHtml(describeTag(w.sourceTag))}</b> → ${escapeHtml(w.effect)}</span>
+    <span><input type="number" min="0" value="${w.chance}" data-rule-id="${w.id}"> <button data-rule-id="${w.id}">Set</button></span>
+  </div>`).join('');
+}
 
-  // Draw icon centered
-  const cx = ICON_SIZE / 2;
-  const cy = ICON_SIZE / 2;
-  const scale = 0.8; // Scale down slightly to fit
+for (const flag of ADMIN_TAG_FLAGS) {
+  const label = document.createElement('label');
+  label.innerHTML = `<input type="checkbox" value="${flag}"> ${flag}`;
+  adminSpawnFlags.appendChild(label);
+}
+adminSpawnName.addEventListener('input', updateSpawnPreview);
+adminSpawnExtra.addEventListener('input', updateSpawnPreview);
+adminSpawnFlags.addEventListener('change', updateSpawnPreview);
+updateSpawnPreview();
+
+document.getElementById('admin-test-mode')!.addEventListener('click', () => {
+  conn?.reducers.enableTestMode({});
+});
+adminCooldown.addEventListener('input', () => {
+  adminCooldownValue.textContent = `${adminCooldown.value} ms`;
+});
+adminCooldown.addEventListener('change', () => {
+  conn?.reducers.setCooldown({ cooldownMs: Number(adminCooldown.value) });
+  adminCooldown.blur(); // A focused input swallows the game keys
+});
+for (const radio of adminPanel.querySelectorAll('input[name="admin-click"]')) {
+  radio.addEventListener('change', () => {
+    adminClickMode = (radio as HTMLInputElement).value as typeof adminClickMode;
+  });
+}
+document.getElementById('admin-spawn-here')!.addEventListener('click', () => {
+  const agent = getMyAgent();
+  if (!agent) { showToast('spawn_test_item: no agent to spawn next to'); return; }
+  adminSpawnAt(agent.x, agent.y);
+});
+adminWorldrules.addEventListener('click', (e) => {
+  const btn = (e.target as HTMLElement).closest('button');
+  if (!btn || !conn) return;
+  const input = adminWorldrules.querySelector(`input[data-rule-id="${btn.dataset.ruleId}"]`) as HTMLInputElement;
+  const chance = Math.max(0, Math.floor(Number(input.value)));
+  conn.reducers.setWorldruleChance({ ruleId: BigInt(btn.dataset.ruleId!), chance });
+});
 
-  octx.save();
-  octx.translate(cx, cy);
-  octx.scale(scale, scale);
-  octx.translate(-cx, -cy);
+// ============================================================
+// Session recording & replay (view update streams)
+// ============================================================
+// Server view name -> client cache accessor
+const RECORDED_TABLES = {
+  my_agent: 'myAgent',
+  nearby_tiles: 'nearbyTiles',
+  nearby_items: 'nearbyItems',
+  nearby_agents: 'nearbyAgents',
+  nearby_messages: 'nearbyMessages',
+  nearby_actions: 'nearbyActions', // Keeps the event feed alive in replays
+} as const satisfies Record<string, keyof DbConnection['db']>;
+type RecordedTable = keyof typeof RECORDED_TABLES;
 
-  drawItemIconAt(octx, cx, cy, tags);
+// The part of a client table the recorder needs, per row type
+type RecordableTable<Row> = {
+  iter(): Iterable<Row>;
+  onInsert(cb: (ctx: EventContext, row: Row) => void): void;
+  onUpdate(cb: (ctx: EventContext, oldRow: Row, row: Row) => void): void;
+  onDelete(cb: (ctx: EventContext, row: Row) => void): void;
+};
 
-  octx.restore();
+// Visits every recorded view of a live connection with its typed table handle
+function forEachRecordedTable(c: DbConnection, fn: <Row>(table: RecordedTable, t: RecordableTable<Row>) => void) {
+  fn('my_agent', c.db.myAgent);
+  fn('nearby_tiles', c.db.nearbyTiles);
+  fn('nearby_items', c.db.nearbyItems);
+  fn('nearby_agents', c.db.nearbyAgents);
+  fn('nearby_messages', c.db.nearbyMessages);
+  fn('nearby_actions', c.db.nearbyActions);
+}
+const RECORDING_MAX_EVENTS = 500000; // Recording stops (and saves) beyond this
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
 
-  // Convert to data URL and cache
-  const dataUrl = offscreen.toDataURL('image/png');
-  iconCache.set(cacheKey, dataUrl);
-  return dataUrl;
+interface RecordedEvent {
+  t: number; // ms since the recording started
+  table: RecordedTable; // Server-side view name
+  op: 'insert' | 'update' | 'delete' | 'clear'; // clear = client cache dropped (reconnect)
+  row?: any;
+  oldRow?: any;
+}
+interface Recording {
+  version: 1;
+  startedAt: number;
+  server: string;
+  module: string;
+  identity: Identity | null; // Whose views these are: inventory is picked by carrier
+  duration: number;
+  events: RecordedEvent[];
+}
+interface ReplayState {
+  rec: Recording;
+  index: number; // Next event to apply
+  time: number; // Playback position, ms
+  speed: number;
+  paused: boolean;
+  seekTo: number | null; // Pending seek from the slider, applied next frame
 }
 
-function drawItemIconAt(ctx: CanvasRenderingContext2D, cx: number, cy: number, tags: string) {
-  const m = parseTags(tags);
+const recordBtn = document.getElementById('record-btn') as HTMLButtonElement;
+const replayBar = document.getElementById('replay-bar') as HTMLDivElement;
+const replayPlayBtn = document.getElementById('replay-play') as HTMLButtonElement;
+const replaySpeed = document.getElementById('replay-speed') as HTMLSelectElement;
+const replaySeek = document.getElementById('replay-seek') as HTMLInputElement;
+const replayTime = document.getElementById('replay-time') as HTMLSpanElement;
+const replayFile = document.getElementById('replay-file') as HTMLInputElement;
+let recording: Recording | null = null;
+let replay: ReplayState | null = null;
 
-  if (m.has('name:tree')) {
-    ctx.fillStyle = '#2d5a1e';
-    ctx.beginPath();
-    ctx.arc(cx, cy - 4, 10, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.fillStyle = '#5c3a1e';
-    ctx.fillRect(cx - 2, cy + 2, 4, 10);
-  } else if (m.has('name:berry_bush')) {
-    ctx.fillStyle = '#3a8a2e';
-    ctx.beginPath();
-    ctx.arc(cx, cy, 8, 0, Math.PI * 2);
-    ctx.fill();
-    if (m.has('harvestable')) {
-      for (const [ox, oy] of [[-3,-3],[3,-2],[0,3],[4,1]]) {
-        ctx.fillStyle = '#cc2222';
-        ctx.beginPath();
-        ctx.arc(cx + ox, cy + oy, 2, 0, Math.PI * 2);
-        ctx.fill();
-      }
-    }
-  } else if (m.has('name:sword')) {
-    ctx.fillStyle = '#c0c0c0';
-    ctx.fillRect(cx - 1, cy - 8, 3, 16);
-    ctx.fillStyle = '#8b6914';
-    ctx.fillRect(cx - 4, cy + 4, 9, 3);
-  } else if (m.has('name:axe')) {
-    ctx.fillStyle = '#8b6914';
-    ctx.fillRect(cx - 1, cy - 6, 3, 14);
-    ctx.fillStyle = '#808080';
-    ctx.fillRect(cx + 2, cy - 6, 6, 8);
-  } else if (m.has('name:berries')) {
-    ctx.fillStyle = '#cc2222';
-    ctx.beginPath();
-    ctx.arc(cx, cy, 4, 0, Math.PI * 2);
-    ctx.fill();
-  } else if (m.has('name:wood')) {
-    ctx.fillStyle = '#8b6914';
-    ctx.fillRect(cx - 6, cy - 2, 12, 5);
-  } else if (m.has('name:pickaxe')) {
-    ctx.fillStyle = '#8b6914';
-    ctx.fillRect(cx - 1, cy - 6, 3, 14);
-    ctx.fillStyle = '#606060';
-    ctx.beginPath();
-    ctx.moveTo(cx - 6, cy - 6);
-    ctx.lineTo(cx + 6, cy - 6);
-    ctx.lineTo(cx + 4, cy - 2);
-    ctx.lineTo(cx - 4, cy - 2);
-    ctx.closePath();
-    ctx.fill();
-  } else if (m.has('name:flint_steel')) {
-    ctx.fillStyle = '#505050';
-    ctx.fillRect(cx - 5, cy - 2, 6, 5);
-    ctx.fillStyle = '#333';
-    ctx.fillRect(cx + 1, cy - 3, 4, 7);
-  } else if (m.has('name:bandage')) {
-    ctx.fillStyle = '#f0f0f0';
-    ctx.fillRect(cx - 5, cy - 4, 10, 8);
-    ctx.fillStyle = '#cc2222';
-    ctx.fillRect(cx - 1, cy - 3, 2, 6);
-    ctx.fillRect(cx - 3, cy - 1, 6, 2);
-  } else if (m.has('name:torch')) {
-    ctx.fillStyle = '#6b4423';
-    ctx.fillRect(cx - 2, cy - 2, 4, 10);
-    if (m.has('lit')) {
-      ctx.fillStyle = '#ff6600';
-      ctx.beginPath();
-      ctx.moveTo(cx, cy - 8);
-      ctx.lineTo(cx - 4, cy - 2);
-      ctx.lineTo(cx + 4, cy - 2);
-      ctx.closePath();
-      ctx.fill();
-      ctx.fillStyle = '#ffcc00';
-      ctx.beginPath();
-      ctx.arc(cx, cy - 4, 3, 0, Math.PI * 2);
-      ctx.fill();
+// Rows hold bigints and Identities, which JSON can't carry as-is
+function encodeRecording(rec: Recording): string {
+  return JSON.stringify(rec, (_key, value) => {
+    if (typeof value === 'bigint') return { $bigint: value.toString() };
+    if (value instanceof Identity) return { $identity: value.toHexString() };
+    return value;
+  });
+}
+
+function decodeRecording(text: string): Recording {
+  const rec = JSON.parse(text, (_key, value) => {
+    if (value && typeof value === 'object') {
+      if (typeof value.$bigint === 'string') return BigInt(value.$bigint);
+      if (typeof value.$identity === 'string') return Identity.fromString(value.$identity);
     }
-  } else if (m.has('name:poison_mushroom')) {
-    ctx.fillStyle = '#6a0dad';
-    ctx.beginPath();
-    ctx.arc(cx, cy - 2, 7, Math.PI, 0);
-    ctx.fill();
-    ctx.fillStyle = '#e0e0e0';
-    ctx.fillRect(cx - 2, cy - 2, 4, 8);
-    ctx.fillStyle = 'white';
-    ctx.beginPath(); ctx.arc(cx - 3, cy - 5, 1.5, 0, Math.PI * 2); ctx.fill();
-    ctx.beginPath(); ctx.arc(cx + 2, cy - 4, 1.5, 0, Math.PI * 2); ctx.fill();
-  } else if (m.has('name:rock')) {
-    ctx.fillStyle = '#707070';
-    ctx.beginPath();
-    ctx.ellipse(cx, cy, 10, 8, 0, 0, Math.PI * 2);
-    ctx.fill();
-    ctx.fillStyle = '#505050';
-    ctx.beginPath();
-    ctx.ellipse(cx + 2, cy + 2, 6, 4, 0.3, 0, Math.PI * 2);
-    ctx.fill();
-  } else if (m.has('name:stone')) {
-    ctx.fillStyle = '#808080';
-    ctx.beginPath();
-    ctx.ellipse(cx, cy, 5, 4, 0, 0, Math.PI * 2);
-    ctx.fill();
-  } else if (m.has('name:wall')) {
-    ctx.fillStyle = '#8b4513';
-    ctx.fillRect(cx - 10, cy - 10, 20, 20);
-    ctx.strokeStyle = '#5a2d0a';
-    ctx.lineWidth = 1;
-    ctx.beginPath();
-    ctx.moveTo(cx - 10, cy - 3); ctx.lineTo(cx + 10, cy - 3);
-    ctx.moveTo(cx - 10, cy + 4); ctx.lineTo(cx + 10, cy + 4);
-    ctx.moveTo(cx, cy - 10); ctx.lineTo(cx, cy - 3);
-    ctx.moveTo(cx - 5, cy - 3); ctx.lineTo(cx - 5, cy + 4);
-    ctx.moveTo(cx + 5, cy - 3); ctx.lineTo(cx + 5, cy + 4);
-    ctx.moveTo(cx, cy + 4); ctx.lineTo(cx, cy + 10);
-    ctx.stroke();
-  } else if (m.has('name:wall_kit')) {
-    ctx.fillStyle = '#a0522d';
-    ctx.fillRect(cx - 5, cy - 4, 10, 8);
-    ctx.strokeStyle = '#5a2d0a';
-    ctx.lineWidth = 1;
-    ctx.strokeRect(cx - 5, cy - 4, 10, 8);
-    ctx.beginPath();
-    ctx.moveTo(cx - 5, cy); ctx.lineTo(cx + 5, cy);
-    ctx.moveTo(cx, cy - 4); ctx.lineTo(cx, cy);
-    ctx.stroke();
-  } else if (m.has('name:fire') || m.has('burning')) {
-    ctx.fillStyle = '#ff4400';
-    ctx.beginPath();
-    ctx.moveTo(cx, cy - 10);
-    ctx.quadraticCurveTo(cx - 8, cy, cx - 5, cy + 6);
-    ctx.lineTo(cx + 5, cy + 6);
-    ctx.quadraticCurveTo(cx + 8, cy, cx, cy - 10);
-    ctx.fill();
-    ctx.fillStyle = '#ffcc00';
-    ctx.beginPath();
-    ctx.moveTo(cx, cy - 5);
-    ctx.quadraticCurveTo(cx - 4, cy + 2, cx - 2, cy + 4);
-    ctx.lineTo(cx + 2, cy + 4);
-    ctx.quadraticCurveTo(cx + 4, cy + 2, cx, cy - 5);
-    ctx.fill();
-  } else {
-    ctx.fillStyle = '#ffff00';
-    ctx.font = '12px monospace';
-    ctx.textAlign = 'center';
-    ctx.fillText('?', cx, cy + 4);
+    return value;
+  });
+  if (rec?.version !== 1 || !Array.isArray(rec.events)) throw new Error('Not a ClawWorld recording');
+  return rec;
+}
+
+function recordEvent(table: RecordedTable, op: RecordedEvent['op'], row?: any, oldRow?: any) {
+  if (!recording || replay) return;
+  recording.events.push({ t: Date.now() - recording.startedAt, table, op, row, oldRow });
+  if (recording.events.length >= RECORDING_MAX_EVENTS) {
+    showToast('Recording is full - saved');
+    stopRecording();
   }
 }
 
-function getItemIcon(tags: string): string {
-  // Return HTML img tag with canvas-rendered icon
-  const dataUrl = getItemIconDataUrl(tags);
-  return `<img src="${dataUrl}" width="${ICON_SIZE}" height="${ICON_SIZE}" style="vertical-align:middle">`;
+// Registered on every live connection from setupCallbacks()
+function setupRecorderCallbacks() {
+  if (!conn) return;
+  forEachRecordedTable(conn, (table, t) => {
+    t.onInsert((_ctx, row) => recordEvent(table, 'insert', row));
+    t.onUpdate((_ctx, oldRow, row) => recordEvent(table, 'update', row, oldRow));
+    t.onDelete((_ctx, row) => recordEvent(table, 'delete', row));
+  });
 }
 
-// Hand icon for bare hands (open palm with fingers)
-let handIconCache: string | null = null;
-function getHandIcon(): string {
-  if (handIconCache) return handIconCache;
+// The client cache is thrown away without delete callbacks - mark it so replays do the same
+function recordCacheReset() {
+  for (const table of Object.keys(RECORDED_TABLES) as RecordedTable[]) recordEvent(table, 'clear');
+}
 
-  const offscreen = document.createElement('canvas');
-  offscreen.width = ICON_SIZE;
-  offscreen.height = ICON_SIZE;
-  const octx = offscreen.getContext('2d')!;
-  const cx = ICON_SIZE / 2;
-  const cy = ICON_SIZE / 2 + 2;
+function startRecording() {
+  if (!conn || replay || recording) return;
+  recording = { version: 1, startedAt: Date.now(), server: getServerUri(), module: getModuleName(), identity: myIdentity, duration: 0, events: [] };
+  // Current state first, so the replay starts from what's on screen
+  forEachRecordedTable(conn, (table, t) => {
+    for (const row of t.iter()) recordEvent(table, 'insert', row);
+  });
+  recordBtn.textContent = '■ Stop & save';
+  recordBtn.classList.add('recording');
+}
 
-  octx.fillStyle = '#e8c4a0'; // skin tone
+function stopRecording() {
+  if (!recording) return;
+  const rec = recording;
+  recording = null;
+  rec.duration = Date.now() - rec.startedAt;
+  recordBtn.textContent = '● Record';
+  recordBtn.classList.remove('recording');
+  downloadJson(`clawworld-replay-${new Date(rec.startedAt).toISOString().replace(/[:.]/g, '-')}.json`, encodeRecording(rec));
+}
 
-  // Palm (rounded rectangle)
-  octx.beginPath();
-  octx.roundRect(cx - 5, cy - 2, 10, 10, 2);
-  octx.fill();
+// Offline connection: every table is local, reducers are no-ops
+let replayConnection: LocalConnection | null = null;
 
-  // Five fingers (vertical lines from palm)
-  const fingerWidth = 2;
-  const fingerSpacing = 2.5;
-  const fingerLength = 6;
-  for (let i = 0; i < 4; i++) {
-    const fx = cx - 4 + i * fingerSpacing;
-    octx.fillRect(fx, cy - 2 - fingerLength, fingerWidth, fingerLength);
-  }
+// Fresh client state + offline connection, playback back at 0
+function resetReplayConnection() {
+  resetClientState(true);
+  const loadingScreen = document.getElementById('loading-screen');
+  if (loadingScreen) loadingScreen.style.display = 'none';
+  replayConnection = createLocalConnection();
+  conn = replayConnection.conn;
+  myIdentity = replay?.rec.identity ?? null;
+  subscribed = true;
+  spectating = true; // Read-only HUD, camera follows the recorded agent
+  setupCallbacks();
+  if (replay) { replay.index = 0; replay.time = 0; }
+}
 
-  // Thumb (angled to the side)
-  octx.fillRect(cx - 7, cy + 1, 4, 3);
+function applyReplayEvent(e: RecordedEvent) {
+  // Files are untrusted: skip views we don't know
+  if (!replayConnection || !Object.prototype.hasOwnProperty.call(RECORDED_TABLES, e.table)) return;
+  const table = replayConnection.table(RECORDED_TABLES[e.table]);
+  if (e.op === 'insert') table.insert(e.row);
+  else if (e.op === 'update') table.update(e.oldRow, e.row);
+  else if (e.op === 'delete') table.delete(e.row);
+  else table.clear();
+}
 
-  handIconCache = `<img src="${offscreen.toDataURL('image/png')}" width="${ICON_SIZE}" height="${ICON_SIZE}" style="vertical-align:middle">`;
-  return handIconCache;
+function advanceReplay(to: number) {
+  if (!replay) return;
+  const events = replay.rec.events;
+  while (replay.index < events.length && events[replay.index].t <= to) applyReplayEvent(events[replay.index++]);
+  replay.time = to;
+  // No death screen in replays: a my_agent row gone after the batch means the agent is gone
+  // (checked here, not in onDelete, so the delete + insert of a re-evaluation keeps the cache)
+  if (myAgentCache && conn && Number(conn.db.myAgent.count()) === 0) myAgentCache = null;
 }
 
-function getItemName(tags: string): string {
-  const m = parseTags(tags);
-  for (const [k] of m) {
-    if (k.startsWith('name:')) return k.substring(5);
-  }
-  return '?';
+function startReplay(rec: Recording) {
+  if (recording) stopRecording();
+  if (reconnectTimer) { clearTimeout(reconnectTimer); reconnectTimer = null; }
+  reconnectBanner.style.display = 'none';
+  replay = { rec, index: 0, time: 0, speed: 1, paused: false, seekTo: null };
+  resetReplayConnection();
+  const modal = document.getElementById('welcome-modal');
+  if (modal) modal.style.display = 'none';
+  const quitBtn = document.getElementById('quit-btn');
+  if (quitBtn) quitBtn.style.display = 'none';
+  replaySeek.max = String(rec.duration);
+  replaySpeed.value = '1';
+  replayBar.style.display = 'flex';
+  document.body.classList.add('replaying');
+  recordBtn.disabled = true;
+  advanceReplay(0);
+  startRenderLoop();
 }
 
-function drawLeaderboard() {
-  if (!conn) return;
+function exitReplay() {
+  if (!replay) return;
+  replay = null;
+  replayConnection = null;
+  spectating = false;
+  replayBar.style.display = 'none';
+  document.body.classList.remove('replaying');
+  recordBtn.disabled = false;
+  reconnect();
+}
 
-  // Build map of visible agents' born_at for current streak
-  // (only agents in our visibility range - my_agent + nearby_agents)
-  const aliveBornAt = new Map<string, number>();
-  for (const a of conn.db.myAgent.iter()) {
-    if (a) {
-      const born = getTag(a.tags, 'born_at');
-      if (born > 0) aliveBornAt.set(a.name, born);
-    }
-  }
-  for (const a of conn.db.nearbyAgents.iter()) {
-    const born = getTag(a.tags, 'born_at');
-    if (born > 0) aliveBornAt.set(a.name, born);
+// Called every frame from render()
+function updateReplay(dt: number) {
+  if (!replay) return;
+  if (replay.seekTo !== null) {
+    const to = replay.seekTo;
+    replay.seekTo = null;
+    // Views are streams of deltas: going back means replaying from the start
+    if (to < replay.time) resetReplayConnection();
+    advanceReplay(to);
+  } else if (!replay.paused) {
+    advanceReplay(Math.min(replay.rec.duration, replay.time + dt * replay.speed));
+    if (replay.time >= replay.rec.duration) replay.paused = true;
   }
+  if (document.activeElement !== replaySeek) replaySeek.value = String(Math.floor(replay.time));
+  const label = `${formatClock(replay.time)} / ${formatClock(replay.rec.duration)}`;
+  if (replayTime.textContent !== label) replayTime.textContent = label;
+  const icon = replay.paused ? '▶' : '⏸';
+  if (replayPlayBtn.textContent !== icon) replayPlayBtn.textContent = icon;
+}
 
-  const entries: any[] = [];
-  for (const lb of conn.db.leaderboard.iter()) entries.push(lb);
+function toggleReplayPaused() {
+  if (!replay) return;
+  // Play at the end starts over
+  if (replay.paused && replay.time >= replay.rec.duration) replay.seekTo = 0;
+  replay.paused = !replay.paused;
+}
 
-  // Sort by current streak (alive) or best streak (dead)
-  const nowMs = Date.now();
-  const getStreak = (e: any) => {
-    const born = aliveBornAt.get(e.name);
-    if (born) return nowMs - born; // alive — current streak
-    return Number(e.bestStreak); // dead — best streak
-  };
-  entries.sort((a, b) => getStreak(b) - getStreak(a));
+function formatClock(ms: number): string {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
 
-  let html = '<h3>Leaderboard</h3>';
-  for (const e of entries.slice(0, 10)) {
-    const alive = aliveBornAt.has(e.name);
-    const streak = Math.floor(getStreak(e) / 1000);
-    const mins = Math.floor(streak / 60);
-    const secs = streak % 60;
-    const timeStr = mins > 0 ? `${mins}m${secs}s` : `${secs}s`;
-    const prefix = alive ? '<span style="color:#22cc22">[A]</span>' : '<span style="color:#666">[X]</span>';
-    html += `<div>${prefix} ${e.name}: ${timeStr} | K:${e.totalKills} D:${e.totalDeaths}</div>`;
+async function loadReplayFile(file: File) {
+  try {
+    startReplay(decodeRecording(await file.text()));
+  } catch (err) {
+    alert(`Could not load replay: ${err}`);
   }
-  leaderboardDiv.innerHTML = html;
 }
 
+for (const speed of REPLAY_SPEEDS) {
+  const option = document.createElement('option');
+  option.value = String(speed);
+  option.textContent = `${speed}×`;
+  replaySpeed.appendChild(option);
+}
+recordBtn.addEventListener('click', () => (recording ? stopRecording() : startRecording()));
+document.getElementById('replay-load-btn')!.addEventListener('click', () => replayFile.click());
+replayFile.addEventListener('change', () => {
+  const file = replayFile.files?.[0];
+  replayFile.value = '';
+  if (file) loadReplayFile(file);
+});
+replayPlayBtn.addEventListener('click', () => toggleReplayPaused());
+replaySpeed.addEventListener('change', () => { if (replay) replay.speed = Number(replaySpeed.value); });
+replaySeek.addEventListener('input', () => { if (replay) replay.seekTo = Number(replaySeek.value); });
+document.getElementById('replay-exit')!.addEventListener('click', () => exitReplay());
+
 // ============================================================
 // Controls
 // ============================================================
 (window as any).__selectSlot = (i: number) => { selectedSlot = i; };
 (window as any).__getConn = () => conn;
 (window as any).__setPlaying = (v: boolean) => { playing = v; };
+(window as any).__observe = (token: string) => observeAgent(token);
+(window as any).__stopObserving = () => stopObserving();
+(window as any).__closeInspector = () => closeInspector();
+(window as any).__toggleRules = () => toggleRulesPanel();
+(window as any).__loadReplay = () => replayFile.click();
+(window as any).__openAgentProfile = (id: string) => openAgentProfile(id);
+(window as any).__openSettings = () => openSettings();
+(window as any).__openProfiles = () => openProfiles();
+(window as any).__toggleAdmin = () => toggleAdminPanel();
+(window as any).__toggleObservation = () => toggleObservationPanel();
+(window as any).__registerItemShapes = (table: ItemShape[]) => registerItemShapes(table);
 (window as any).__getState = () => {
   // Serialize agent to plain object for Puppeteer tests
   // SpacetimeDB objects with Identity/bigint don't serialize through page.evaluate
@@ -979,6 +3786,7 @@ function drawLeaderboard() {
   } : null;
   return {
     playing,
+    spectating,
     myIdentity: myIdentity?.toHexString(),
     myAgent: serializedAgent,
     inventoryCount: getInventory().length,
@@ -1023,9 +3831,46 @@ document.addEventListener('keydown', (e) => {
     return;
   }
 
-  if (!playing || !conn) return;
+  // Typing into a panel field (admin console) must not move the agent
+  if (e.target instanceof HTMLInputElement) return;
+
+  // Esc releases a camera focus picked from a panel, then closes the inspector
+  if (e.key === 'Escape' && cameraFocus && !useMode) { cameraFocus = null; return; }
+  if (e.key === 'Escape' && (followTarget || freeCamera) && !useMode) { resetCamera(); return; }
+  if (e.key === 'Escape' && inspectedTile && !useMode) { closeInspector(); return; }
+
+  // Space pauses/resumes a replay
+  if (replay && e.key === ' ') { e.preventDefault(); toggleReplayPaused(); return; }
+
+  // Tab / Shift+Tab: follow the next / previous agent in view
+  // (not inside dialogs or on focusable controls: there Tab moves the focus)
+  if (e.key === 'Tab' && !modalOpen() && !(e.target instanceof HTMLButtonElement || e.target instanceof HTMLSelectElement || e.target instanceof HTMLTextAreaElement)) {
+    e.preventDefault();
+    cycleFollowTarget(e.shiftKey ? -1 : 1);
+    return;
+  }
+
+  // Not playing: WASD/arrows pan the camera (held keys, applied per frame)
+  if (!playing && PAN_KEYS[e.code]) {
+    e.preventDefault();
+    panKeysHeld.add(e.code);
+    enterFreeCamera();
+    return;
+  }
+
+  // Toggle minimap / rules browser (also while spectating)
+  if (e.code === 'KeyM' && !e.repeat) { toggleMinimap(); return; }
+  if (e.code === 'KeyR' && !e.repeat) { toggleRulesPanel(); return; }
+  // Backquote stays the bare-hands key where there is no admin console
+  if (e.code === 'Backquote' && !e.repeat && adminAvailable()) { toggleAdminPanel(); return; }
+  if (e.code === 'KeyO' && !e.repeat) { toggleObservationPanel(); return; }
+
+  if (!playing || !conn || !subscribed) return;
   if (e.repeat) return; // ignore key repeat
 
+  // Any manual key takes over from click-to-move
+  if (walk) cancelWalk('manual input');
+
   // No client-side cooldown tracking — server-confirmed via onUpdate callback
 
   if (useMode) {
@@ -1052,6 +3897,9 @@ document.addEventListener('keydown', (e) => {
     return;
   }
 
+  // Moving snaps the camera back to our agent
+  if (['KeyW', 'KeyA', 'KeyS', 'KeyD'].includes(e.code) || e.key.startsWith('Arrow')) { cameraFocus = null; resetCamera(); }
+
   // Movement - use e.code for layout-independent keys (works with Cyrillic/other layouts)
   if (e.code === 'KeyW' || e.key === 'ArrowUp') { conn.reducers.move({ direction: 'north' }); }
   else if (e.code === 'KeyS' || e.key === 'ArrowDown') { conn.reducers.move({ direction: 'south' }); }
@@ -1065,7 +3913,7 @@ document.addEventListener('keydown', (e) => {
     const takeable: any[] = [];
     for (const item of conn.db.nearbyItems.iter()) {
       if (!item.carrier && item.x === agent.x && item.y === agent.y
-          && !hasTag(item.tags, 'blocking') && !hasTag(item.tags, 'rooted')) {
+          && !tagsOf(item.tags).blocking && !tagsOf(item.tags).rooted) {
         takeable.push(item);
       }
     }
@@ -1110,12 +3958,18 @@ document.addEventListener('keydown', (e) => {
   }
 });
 
+document.addEventListener('keyup', (e) => { panKeysHeld.delete(e.code); });
+window.addEventListener('blur', () => panKeysHeld.clear());
+
 chatInput.addEventListener('input', (e) => {
   chatText = (e.target as HTMLInputElement).value;
 });
 
-// Mouse controls for camera (spectate mode)
+// Mouse controls for camera (spectate mode) + click to inspect
+let mouseDownX = 0, mouseDownY = 0;
 canvas.addEventListener('mousedown', (e) => {
+  mouseDownX = e.clientX;
+  mouseDownY = e.clientY;
   if (!playing) {
     dragging = true;
     dragStartX = e.clientX;
@@ -1126,15 +3980,31 @@ canvas.addEventListener('mousedown', (e) => {
 });
 canvas.addEventListener('mousemove', (e) => {
   if (dragging) {
+    // A plain click (inspect) must not detach the camera from its target
+    if (Math.hypot(e.clientX - dragStartX, e.clientY - dragStartY) < CLICK_SLOP_PX && !freeCamera) return;
+    if (!freeCamera || followTarget || cameraFocus) enterFreeCamera();
     camX = camStartX - (e.clientX - dragStartX) / zoom;
     camY = camStartY - (e.clientY - dragStartY) / zoom;
   }
 });
-canvas.addEventListener('mouseup', () => { dragging = false; });
+canvas.addEventListener('mouseup', (e) => {
+  dragging = false;
+  if (e.button === 0 && Math.hypot(e.clientX - mouseDownX, e.clientY - mouseDownY) < CLICK_SLOP_PX) {
+    const tile = screenToTile(e.clientX, e.clientY);
+    if (handleAdminClick(tile.x, tile.y)) return;
+    openInspector(tile.x, tile.y);
+  }
+});
+// Right click: walk there (players only)
+canvas.addEventListener('contextmenu', (e) => {
+  e.preventDefault();
+  if (!playing || !subscribed) return;
+  const tile = screenToTile(e.clientX, e.clientY);
+  startWalk(tile.x, tile.y);
+});
 canvas.addEventListener('wheel', (e) => {
   e.preventDefault();
-  zoom *= e.deltaY > 0 ? 0.9 : 1.1;
-  zoom = Math.max(0.25, Math.min(4, zoom));
+  zoomAt(e.clientX, e.clientY, e.deltaY > 0 ? 0.9 : 1.1);
 });
 
 // ============================================================
@@ -1164,6 +4034,9 @@ function setupCallbacks() {
     }
 
     myAgentCache = agent;
+    if (spectating) return; // Observed agent - never take over its controls
+
+    rememberProfileAgent(agent.name);
     playing = true;
     // Clear quitToMenu flag since we're playing
     localStorage.removeItem('clawworld_quit_to_menu');
@@ -1195,6 +4068,8 @@ function setupCallbacks() {
 
   // Message view callbacks
   conn.db.nearbyMessages.onInsert((_ctx, msg) => {
+    addChatMessage(msg);
+    // Only fresh messages float above agents; older ones live in the chat log
     const msgAge = Date.now() - Number(msg.sentAt);
     if (msgAge > 10000) return;
     floatingMessages.push({
@@ -1205,13 +4080,47 @@ function setupCallbacks() {
       time: Date.now(),
     });
   });
+
+  // Chunk render cache + minimap: re-render a chunk / repaint a tile only when it really changed
+  // (deletes are settled once per frame, see flushViewDeletes)
+  conn.db.nearbyTiles.onInsert((_ctx, tile) => onViewTileInsert(tile));
+  conn.db.nearbyTiles.onUpdate((_ctx, old, tile) => {
+    if (sameTile(old, tile)) return;
+    unindexChunkTile(old);
+    indexChunkTile(tile);
+    paintMinimapTile(tile);
+  });
+  conn.db.nearbyTiles.onDelete((_ctx, tile) => { pendingTileDeletes.set(tile.id.toString(), tile); });
+  // Minimap dots recomposed on change
+  conn.db.nearbyItems.onInsert((_ctx, item) => onViewItemInsert(item));
+  conn.db.nearbyItems.onUpdate((_ctx, old, item) => { if (!sameItem(old, item)) minimapDirty = true; });
+  conn.db.nearbyItems.onDelete((_ctx, item) => { pendingItemDeletes.set(item.id.toString(), item); });
+  conn.db.nearbyAgents.onInsert((_ctx, a) => { minimapDirty = true; recordVitals(a); });
+  conn.db.nearbyAgents.onUpdate((_ctx, _old, a) => { minimapDirty = true; recordVitals(a); });
+  conn.db.nearbyAgents.onDelete(() => { minimapDirty = true; });
+  conn.db.myAgent.onInsert(() => { minimapDirty = true; });
+
+  // Action log view callbacks (event feed)
+  conn.db.nearbyActions.onInsert((_ctx, entry) => {
+    addFeedEntry(entry);
+  });
+
+  // Leaderboard rows
+  conn.db.leaderboard.onInsert((_ctx, row) => upsertLeaderboardRow(row));
+  conn.db.leaderboard.onUpdate((_ctx, _old, row) => upsertLeaderboardRow(row));
+  conn.db.leaderboard.onDelete((_ctx, row) => removeLeaderboardRow(row));
+
+  setupReducerCallbacks();
+  setupRecorderCallbacks();
 }
 
 // Polling: Check myAgent view in render loop
 // This is the PRIMARY method for detecting both agent appearing AND death.
 // Uses frame-counting to avoid false positives from Views API re-evaluation.
 function checkMyAgentFromView() {
-  if (!conn) return;
+  // While reconnecting the view is empty or stale - never read that as death
+  // (nor in replays: seeking rebuilds the views from scratch)
+  if (!conn || !subscribed || replay) return;
 
   let foundAgent: any = null;
   for (const a of conn.db.myAgent.iter()) {
@@ -1222,11 +4131,14 @@ function checkMyAgentFromView() {
   if (foundAgent) {
     // Agent exists in view - reset death counter
     deathFrameCount = 0;
+    recordVitals(foundAgent);
 
     // Detect agent appeared (for new registration or recovery)
     if (!myAgentCache) {
       console.log('Polling detected agent:', foundAgent.name);
       myAgentCache = foundAgent;
+      if (spectating) return;
+      rememberProfileAgent(foundAgent.name);
       playing = true;
       playBtn.style.display = 'none';
       const quitBtn = document.getElementById('quit-btn');
@@ -1243,13 +4155,14 @@ function checkMyAgentFromView() {
         actionEffect = { type: 'success', x: foundAgent.x, y: foundAgent.y, time: Date.now() };
       }
     }
-  } else if (myAgentCache && playing) {
+  } else if (myAgentCache && (playing || spectating)) {
     // No agent in view but we had one - potential death
     // Increment frame counter to confirm it's not just a view re-evaluation glitch
     deathFrameCount++;
 
     if (deathFrameCount >= DEATH_CONFIRM_FRAMES) {
       console.log(`Death confirmed after ${deathFrameCount} frames`);
+      const deadAgent = myAgentCache;
       myAgentCache = null;
       playing = false;
       playBtn.style.display = 'none';
@@ -1258,23 +4171,105 @@ function checkMyAgentFromView() {
       if (controlsHelp) controlsHelp.style.display = 'none';
       const quitBtn = document.getElementById('quit-btn');
       if (quitBtn) quitBtn.style.display = 'none';
-      showDeathScreen();
+      showDeathScreen(deadAgent);
       deathFrameCount = 0; // Reset for potential next life
     }
   }
 }
 
+// ============================================================
+// Death recap (vitals history, cause, killer, stats)
+// ============================================================
+const RECAP_ACTIONS = 10;
+const RECAP_MESSAGES = 6;
+const KILL_WINDOW_MS = 10000; // A hit this long before death still counts as the killing blow
+const HARMLESS_ACTIONS = new Set(['say', 'move', 'take', 'drop', 'register']);
+interface DeathRecap {
+  cause: string;
+  killer: string | null;
+  lifespanMs: number | null;
+  actions: any[]; // nearby_actions rows involving the agent, oldest first
+  messages: any[];
+}
+
+function buildDeathRecap(agent: any): DeathRecap {
+  const name: string = agent.name;
+  const now = Date.now();
+  // Whole-name mentions only: "Bobby hit Eve" doesn't involve Bob
+  const mention = new RegExp(`(?<![\\w])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w])`);
+  const involved = eventFeed.filter(e => e.actorName === name || mention.test(e.details));
+  const actions = involved.slice(-RECAP_ACTIONS);
+  const messages = chatHistory
+    .filter(m => m.senderName === name || mention.test(m.text))
+    .slice(-RECAP_MESSAGES);
+
+  // Latest recent (non-harmless) action by someone else that names us
+  let killer: string | null = null;
+  for (let i = involved.length - 1; i >= 0; i--) {
+    const e = involved[i];
+    if (now - Number(e.timestamp) > KILL_WINDOW_MS) break;
+    if (e.actorName !== name && !HARMLESS_ACTIONS.has(e.action)) { killer = e.actorName; break; }
+  }
+
+  const tags = tagsOf(agent.tags);
+  const vitals = getVitals(agent.identity.toHexString());
+  const last = vitals[vitals.length - 1];
+  let cause = 'Unknown';
+  if (killer) cause = `Killed by ${killer}`;
+  else if ((last?.satiety ?? tags.satiety) <= 0) cause = 'Starvation';
+  else if (tags.burning) cause = 'Burned';
+
+  return { cause, killer, lifespanMs: tags.bornAt > 0 ? now - tags.bornAt : null, actions, messages };
+}
+
+function getLeaderboardRow(agent: any): any | null {
+  if (!conn) return null;
+  const id = agent.identity?.toHexString?.();
+  for (const row of conn.db.leaderboard.iter()) {
+    if (id ? row.identity.toHexString() === id : row.name === agent.name) return row;
+  }
+  return null;
+}
+
+function renderRecapStats(agent: any, lifespanMs: number | null): string {
+  const row = getLeaderboardRow(agent);
+  const stats = [
+    `<div><span class="label">Lifespan</span> ${lifespanMs !== null ? formatDuration(lifespanMs) : '?'}</div>`,
+    `<div><span class="label">Kills</span> ${row ? row.totalKills : '?'}</div>`,
+    `<div><span class="label">Deaths</span> ${row ? row.totalDeaths : '?'}</div>`,
+    `<div><span class="label">K/D</span> ${row ? leaderboardKd(row).toFixed(2) : '?'}</div>`,
+  ];
+  return stats.join('');
+}
+
+// Same flow as PLAY in the menu, but with the previous name
+function respawnAs(name: string) {
+  if (!conn) return;
+  localStorage.removeItem('clawworld_quit_to_menu');
+  const modal = document.getElementById('welcome-modal');
+  if (modal) modal.style.display = 'none';
+  const quitBtn = document.getElementById('quit-btn');
+  if (quitBtn) quitBtn.style.display = 'block';
+  const controlsHelp = document.getElementById('controls-help');
+  if (controlsHelp) controlsHelp.style.display = 'block';
+  conn.reducers.register({ name });
+  playing = true;
+  playBtn.style.display = 'none';
+}
+
 // ============================================================
 // Death Screen
 // ============================================================
-function showDeathScreen() {
+function showDeathScreen(agent: any) {
   // Prevent multiple death screens stacking
   if (document.getElementById('death-overlay')) {
     return;
   }
 
-  // Clear token so page reload shows welcome screen, not dead agent
-  localStorage.removeItem('clawworld_token');
+  // Observed agent died - our own token is untouched
+  const observed = spectating;
+  const name: string = agent.name;
+  const recap = buildDeathRecap(agent);
 
   // Create death overlay
   const overlay = document.createElement('div');
@@ -1292,25 +4287,60 @@ function showDeathScreen() {
       DEAD
     </div>
     <div style="color: #aaa; font-size: 18px; margin-top: 20px;">
-      You have perished in ClawWorld
+      ${observed ? `${escapeHtml(name)} has perished in ClawWorld` : 'You have perished in ClawWorld'}
+    </div>
+    <div class="recap">
+      <div class="cause">${escapeHtml(recap.cause)}</div>
+      <div class="stats" id="death-stats">${renderRecapStats(agent, recap.lifespanMs)}</div>
+      <h4>HP <span style="color:#ff4444">■</span> / satiety <span style="color:#44cc44">■</span></h4>
+      <canvas id="death-vitals" width="360" height="60"></canvas>
+      <h4>Last actions</h4>
+      ${recap.actions.length === 0 ? '<div class="muted">None seen</div>' : recap.actions.map(e =>
+        `<div><span class="time">${formatTime(e.timestamp)}</span> <b>${escapeHtml(e.actorName)}</b> ${escapeHtml(e.action)} ${escapeHtml(e.details)}</div>`).join('')}
+      <h4>Last messages</h4>
+      ${recap.messages.length === 0 ? '<div class="muted">None seen</div>' : recap.messages.map(m =>
+        `<div><span class="time">${formatTime(m.sentAt)}</span> <b>${escapeHtml(m.senderName)}</b>: ${escapeHtml(m.text)}</div>`).join('')}
+    </div>
+    <div style="display: flex; gap: 12px; margin-top: 24px;">
+      ${observed ? '' : `<button id="death-respawn-btn" style="
+        padding: 15px 30px;
+        font-size: 18px; cursor: pointer;
+        background: #cc3333; color: white; border: 2px solid #ff5555;
+        border-radius: 8px;
+      ">
+        Respawn as ${escapeHtml(name)}
+      </button>`}
+      <button id="death-continue-btn" style="
+        padding: 15px 40px;
+        font-size: 18px; cursor: pointer;
+        background: #333; color: white; border: 2px solid #666;
+        border-radius: 8px;
+      ">
+        Continue
+      </button>
     </div>
-    <button id="death-continue-btn" style="
-      margin-top: 40px; padding: 15px 40px;
-      font-size: 18px; cursor: pointer;
-      background: #333; color: white; border: 2px solid #666;
-      border-radius: 8px;
-    ">
-      Continue
-    </button>
   `;
 
   document.body.appendChild(overlay);
+  drawVitalsChart(document.getElementById('death-vitals') as HTMLCanvasElement, getVitals(agent.identity.toHexString()));
+  // The leaderboard row is bumped by the same transaction that killed us, give it a moment
+  setTimeout(() => {
+    const stats = document.getElementById('death-stats');
+    if (stats) stats.innerHTML = renderRecapStats(agent, recap.lifespanMs);
+  }, 1500);
+
+  document.getElementById('death-respawn-btn')?.addEventListener('click', () => {
+    overlay.remove();
+    respawnAs(name);
+  });
 
   // Handle continue button
   const continueBtn = document.getElementById('death-continue-btn');
   if (continueBtn) {
     continueBtn.addEventListener('click', () => {
       overlay.remove();
+      // Leaving spectator mode reconnects and shows the menu itself
+      if (observed) { stopObserving(); return; }
       // Show welcome modal
       const modal = document.getElementById('welcome-modal');
       if (modal) modal.style.display = 'flex';
@@ -1323,4 +4353,9 @@ function showDeathScreen() {
 // ============================================================
 window.addEventListener('load', () => {
   connect();
+  // Optional reskin: ?assets=<manifest.json url>
+  const assetsUrl = new URLSearchParams(window.location.search).get('assets');
+  if (assetsUrl) loadSpriteAssets(assetsUrl);
+  // ?admin=1 opens the test console straight away (local server only)
+  if (new URLSearchParams(window.location.search).get('admin') === '1') toggleAdminPanel();
 });
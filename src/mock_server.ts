@@ -0,0 +1,435 @@
+import { Identity } from 'spacetimedb';
+import { createLocalConnection, rowKey, type DataSource, type LocalConnection } from './data_source';
+
+// ============================================================
+// Mock server (?server=mock)
+// ============================================================
+// In-memory stand-in for the ClawWorld module: generates chunks, runs
+// register/move/take/drop/say, eating and the admin reducers, and keeps every
+// client's views and public tables in sync through insert/update/delete events.
+// The world lives as long as the page: switching profiles keeps it.
+export const MOCK_SERVER_URI = 'mock://local';
+
+const CHUNK_SIZE = 16; // Same as the viewer and the real module
+const VIEW_RADIUS = 12; // nearby_* views: rows within this many tiles (Chebyshev)
+const OBSERVATION_RADIUS = 3;
+const SPAWN_SEARCH_RADIUS = 40;
+const LATENCY_MS = 30; // Reducer round trip, so results still arrive asynchronously
+const DEFAULT_COOLDOWN_MS = 200;
+const INVENTORY_MAX = 8;
+const SAY_MAX_LENGTH = 200;
+const MESSAGES_MAX = 200;
+const ACTIONS_MAX = 500;
+const NEARBY_ACTIONS_MAX = 50;
+const DEFAULT_FOOD_VALUE = 20;
+
+type Row = Record<string, any>;
+interface MockClient {
+  identity: Identity;
+  hex: string;
+  local: LocalConnection;
+  subscribed: boolean; // Tables stay empty until the first subscription, like a fresh client cache
+}
+
+const DIRECTIONS: Record<string, [number, number]> = { north: [0, -1], south: [0, 1], west: [-1, 0], east: [1, 0] };
+
+// Ground items rolled per tile when a chunk is generated
+const ITEM_SPAWNS: { surface: string; chance: number; tags: string }[] = [
+  { surface: 'grass', chance: 0.05, tags: 'name:tree,blocking,rooted,harvestable' },
+  { surface: 'grass', chance: 0.02, tags: 'name:berry_bush,rooted,harvestable' },
+  { surface: 'grass', chance: 0.015, tags: 'name:berries,food:20' },
+  { surface: 'grass', chance: 0.005, tags: 'name:poison_mushroom,food:-30' },
+  { surface: 'dirt', chance: 0.02, tags: 'name:wood' },
+  { surface: 'stone', chance: 0.06, tags: 'name:rock,blocking' },
+  { surface: 'stone', chance: 0.02, tags: 'name:stone' },
+];
+
+const world = {
+  tiles: new Map<string, Row>(), // "x,y"
+  chunks: new Set<string>(), // "cx,cy"
+  items: new Map<bigint, Row>(),
+  agents: new Map<string, Row>(), // Identity hex
+  leaderboard: new Map<string, Row>(),
+  observations: new Map<string, Row>(),
+  messages: [] as Row[], // Oldest first
+  actions: [] as Row[],
+  rules: [] as Row[],
+  worldrules: [] as Row[],
+  nextId: 1n,
+  cooldownMs: DEFAULT_COOLDOWN_MS,
+  testMode: false,
+};
+const clients = new Set<MockClient>();
+
+function nextId(): bigint {
+  return world.nextId++;
+}
+
+// ============================================================
+// World generation
+// ============================================================
+// Deterministic per-tile hash in [0, 1)
+function hash(x: number, y: number, seed: number): number {
+  let h = Math.imul(x, 374761393) ^ Math.imul(y, 668265263) ^ Math.imul(seed, 1274126177);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+// Value noise on an 8-tile lattice: smooth enough for lakes and rocky patches
+function noise(x: number, y: number): number {
+  const gx = Math.floor(x / 8), gy = Math.floor(y / 8);
+  const fx = x / 8 - gx, fy = y / 8 - gy;
+  const sx = fx * fx * (3 - 2 * fx), sy = fy * fy * (3 - 2 * fy);
+  const top = hash(gx, gy, 1) + (hash(gx + 1, gy, 1) - hash(gx, gy, 1)) * sx;
+  const bottom = hash(gx, gy + 1, 1) + (hash(gx + 1, gy + 1, 1) - hash(gx, gy + 1, 1)) * sx;
+  return top + (bottom - top) * sy;
+}
+
+function surfaceAt(x: number, y: number): string {
+  const n = noise(x, y);
+  if (n < 0.28) return 'water';
+  if (n < 0.62) return 'grass';
+  if (n < 0.78) return 'dirt';
+  return 'stone';
+}
+
+function generateChunk(cx: number, cy: number) {
+  const key = `${cx},${cy}`;
+  if (world.chunks.has(key)) return;
+  world.chunks.add(key);
+  for (let y = cy * CHUNK_SIZE; y < (cy + 1) * CHUNK_SIZE; y++) {
+    for (let x = cx * CHUNK_SIZE; x < (cx + 1) * CHUNK_SIZE; x++) {
+      const surface = surfaceAt(x, y);
+      world.tiles.set(`${x},${y}`, { id: nextId(), x, y, tags: `surface:${surface}` });
+      let roll = hash(x, y, 2);
+      for (const spawn of ITEM_SPAWNS) {
+        if (spawn.surface !== surface) continue;
+        if (roll < spawn.chance) { createItem(x, y, spawn.tags); break; }
+        roll -= spawn.chance;
+      }
+    }
+  }
+}
+
+// Views only show generated ground, so keep everything in view range generated
+function generateAround(x: number, y: number) {
+  const min = (v: number) => Math.floor((v - VIEW_RADIUS) / CHUNK_SIZE);
+  const max = (v: number) => Math.floor((v + VIEW_RADIUS) / CHUNK_SIZE);
+  for (let cy = min(y); cy <= max(y); cy++) {
+    for (let cx = min(x); cx <= max(x); cx++) generateChunk(cx, cy);
+  }
+}
+
+function createItem(x: number, y: number, tags: string): Row {
+  const item = { id: nextId(), x, y, carrier: undefined, tags };
+  world.items.set(item.id, item);
+  return item;
+}
+
+function tagValue(tags: string, key: string): string | null {
+  for (const token of tags.split(',')) {
+    if (token === key) return '';
+    if (token.startsWith(`${key}:`)) return token.substring(key.length + 1);
+  }
+  return null;
+}
+
+function setTag(tags: string, key: string, value: string | number): string {
+  const rest = tags.split(',').filter(t => t && t !== key && !t.startsWith(`${key}:`));
+  return [...rest, `${key}:${value}`].join(',');
+}
+
+function itemName(item: Row): string {
+  return tagValue(item.tags, 'name') || 'item';
+}
+
+// Why a tile can't be entered, or null if it can
+function blockedReason(x: number, y: number): string | null {
+  generateChunk(Math.floor(x / CHUNK_SIZE), Math.floor(y / CHUNK_SIZE));
+  const tile = world.tiles.get(`${x},${y}`)!;
+  if (tagValue(tile.tags, 'surface') === 'water') return 'Blocked by water';
+  for (const item of world.items.values()) {
+    if (!item.carrier && item.x === x && item.y === y && tagValue(item.tags, 'blocking') !== null) return `Blocked by ${itemName(item)}`;
+  }
+  for (const agent of world.agents.values()) {
+    if (agent.x === x && agent.y === y) return `Occupied by ${agent.name}`;
+  }
+  return null;
+}
+
+// Nearest free land tile to the origin, searched in growing squares
+function findSpawn(): { x: number; y: number } | null {
+  for (let r = 0; r <= SPAWN_SEARCH_RADIUS; r++) {
+    for (let y = -r; y <= r; y++) {
+      for (let x = -r; x <= r; x++) {
+        if (Math.max(Math.abs(x), Math.abs(y)) === r && !blockedReason(x, y)) return { x, y };
+      }
+    }
+  }
+  return null;
+}
+
+// ============================================================
+// Reducers
+// ============================================================
+// Each returns a failure reason, or nothing when it committed
+type Reducer = (client: MockClient, args: any) => string | void;
+
+function logAction(agent: Row, action: string, details: string) {
+  world.actions.push({ id: nextId(), actorName: agent.name, action, details, x: agent.x, y: agent.y, timestamp: BigInt(Date.now()) });
+  if (world.actions.length > ACTIONS_MAX) world.actions.shift();
+}
+
+// Agent that may act now: exists and is off cooldown
+function actingAgent(client: MockClient): Row | string {
+  const agent = world.agents.get(client.hex);
+  if (!agent) return 'No agent - register first';
+  if (Date.now() - Number(agent.lastActionAt) < world.cooldownMs) return 'Too fast, wait for the cooldown';
+  return agent;
+}
+
+function placeAgent(agent: Row, x: number, y: number) {
+  const moved = { ...agent, x, y, lastActionAt: BigInt(Date.now()) };
+  world.agents.set(agent.identity.toHexString(), moved);
+  // Carried items travel with their carrier
+  for (const item of world.items.values()) {
+    if (item.carrier?.isEqual(agent.identity)) world.items.set(item.id, { ...item, x, y });
+  }
+  generateAround(x, y);
+  return moved;
+}
+
+function touch(agent: Row): Row {
+  const touched = { ...agent, lastActionAt: BigInt(Date.now()) };
+  world.agents.set(agent.identity.toHexString(), touched);
+  return touched;
+}
+
+const REDUCERS: Record<string, Reducer> = {
+  register(client, { name }) {
+    const trimmed = String(name ?? '').trim();
+    if (!trimmed) return 'Name must not be empty';
+    if (world.agents.has(client.hex)) return 'You already have an agent';
+    if ([...world.agents.values()].some(a => a.name === trimmed)) return `Name ${trimmed} is taken`;
+    const spawn = findSpawn();
+    if (!spawn) return 'No free spawn tile';
+    const now = Date.now();
+    const agent = { identity: client.identity, name: trimmed, x: spawn.x, y: spawn.y, tags: `hp:100,satiety:100,born_at:${now}`, lastActionAt: BigInt(now) };
+    world.agents.set(client.hex, agent);
+    const lb = world.leaderboard.get(client.hex);
+    world.leaderboard.set(client.hex, { identity: client.identity, name: trimmed, bestStreak: lb?.bestStreak ?? 0n, totalKills: lb?.totalKills ?? 0, totalDeaths: lb?.totalDeaths ?? 0 });
+    generateAround(spawn.x, spawn.y);
+    logAction(agent, 'register', `${trimmed} joined`);
+  },
+
+  move(client, { direction }) {
+    const agent = actingAgent(client);
+    if (typeof agent === 'string') return agent;
+    const delta = DIRECTIONS[direction];
+    if (!delta) return `Unknown direction ${direction}`;
+    const x = agent.x + delta[0], y = agent.y + delta[1];
+    const blocked = blockedReason(x, y);
+    if (blocked) return blocked;
+    logAction(placeAgent(agent, x, y), 'move', direction);
+  },
+
+  take(client, { itemId }) {
+    const agent = actingAgent(client);
+    if (typeof agent === 'string') return agent;
+    const item = world.items.get(itemId);
+    if (!item || item.carrier || item.x !== agent.x || item.y !== agent.y) return 'Nothing to take here';
+    if (tagValue(item.tags, 'rooted') !== null || tagValue(item.tags, 'blocking') !== null) return `Can't pick up ${itemName(item)}`;
+    const carried = [...world.items.values()].filter(i => i.carrier?.isEqual(agent.identity)).length;
+    if (carried >= INVENTORY_MAX) return 'Inventory full';
+    world.items.set(item.id, { ...item, carrier: agent.identity });
+    logAction(touch(agent), 'take', itemName(item));
+  },
+
+  drop(client, { itemId }) {
+    const agent = actingAgent(client);
+    if (typeof agent === 'string') return agent;
+    const item = world.items.get(itemId);
+    if (!item?.carrier?.isEqual(agent.identity)) return 'You are not carrying that';
+    world.items.set(item.id, { ...item, carrier: undefined, x: agent.x, y: agent.y });
+    logAction(touch(agent), 'drop', itemName(item));
+  },
+
+  say(client, { text }) {
+    const agent = actingAgent(client);
+    if (typeof agent === 'string') return agent;
+    const trimmed = String(text ?? '').trim();
+    if (!trimmed) return 'Nothing to say';
+    if (trimmed.length > SAY_MAX_LENGTH) return `Messages are limited to ${SAY_MAX_LENGTH} characters`;
+    world.messages.push({ id: nextId(), sender: agent.identity, senderName: agent.name, text: trimmed, x: agent.x, y: agent.y, sentAt: BigInt(Date.now()) });
+    if (world.messages.length > MESSAGES_MAX) world.messages.shift();
+    logAction(touch(agent), 'say', trimmed);
+  },
+
+  // Only eating is modelled: rules and world rules need the real module
+  use(client, { itemId, target }) {
+    const agent = actingAgent(client);
+    if (typeof agent === 'string') return agent;
+    const item = world.items.get(itemId);
+    if (!item?.carrier?.isEqual(agent.identity)) return 'Nothing happens (the mock server only supports eating)';
+    const food = tagValue(item.tags, 'food');
+    if (target !== 'self' || food === null) return 'Nothing happens (the mock server only supports eating)';
+    const value = food ? Number(food) : DEFAULT_FOOD_VALUE;
+    const satiety = Math.max(0, Math.min(100, Number(tagValue(agent.tags, 'satiety') ?? 0) + value));
+    world.items.delete(item.id);
+    logAction(touch({ ...agent, tags: setTag(agent.tags, 'satiety', satiety) }), 'use', `ate ${itemName(item)}`);
+  },
+
+  getObservation(client) {
+    const agent = world.agents.get(client.hex);
+    if (!agent) return 'No agent - register first';
+    const near = (r: Row) => Math.abs(r.x - agent.x) <= OBSERVATION_RADIUS && Math.abs(r.y - agent.y) <= OBSERVATION_RADIUS;
+    const data = {
+      self: { name: agent.name, x: agent.x, y: agent.y, tags: agent.tags },
+      tiles: [...world.tiles.values()].filter(near).map(t => ({ x: t.x, y: t.y, tags: t.tags })),
+      items: [...world.items.values()].filter(i => near(i) && !i.carrier).map(i => ({ id: Number(i.id), x: i.x, y: i.y, tags: i.tags })),
+      inventory: [...world.items.values()].filter(i => i.carrier?.isEqual(agent.identity)).map(i => ({ id: Number(i.id), tags: i.tags })),
+      agents: [...world.agents.values()].filter(a => near(a) && a !== agent).map(a => ({ identity: a.identity.toHexString(), name: a.name, x: a.x, y: a.y })),
+    };
+    world.observations.set(client.hex, { identity: client.identity, jsonData: JSON.stringify(data), updatedAt: BigInt(Date.now()) });
+  },
+
+  generateChunk(_client, { chunkX, chunkY }) {
+    generateChunk(chunkX, chunkY);
+  },
+
+  enableTestMode() {
+    world.testMode = true;
+  },
+
+  setCooldown(_client, { cooldownMs }) {
+    world.cooldownMs = cooldownMs;
+  },
+
+  teleport(client, { x, y }) {
+    const agent = world.agents.get(client.hex);
+    if (!agent) return 'No agent - register first';
+    const blocked = blockedReason(x, y);
+    if (blocked) return blocked;
+    placeAgent(agent, x, y);
+  },
+
+  spawnTestItem(_client, { x, y, tags }) {
+    if (!tags) return 'Tags must not be empty';
+    createItem(x, y, tags);
+  },
+
+  setWorldruleChance(_client, { ruleId, chance }) {
+    const index = world.worldrules.findIndex(r => r.id === ruleId);
+    if (index === -1) return `No world rule ${ruleId}`;
+    world.worldrules[index] = { ...world.worldrules[index], chance };
+  },
+};
+
+function callReducer(client: MockClient, reducer: string, args: any) {
+  setTimeout(() => {
+    if (!clients.has(client)) return;
+    const impl = REDUCERS[reducer];
+    const failure = impl ? impl(client, args) : `Reducer ${reducer} is not implemented by the mock server`;
+    // Table events reach every client before the caller's reducer callback, as with the real module
+    if (!failure) for (const c of clients) syncClient(c);
+    const status = failure ? { tag: 'Failed', value: failure } : { tag: 'Committed' };
+    const ctx = { event: { callerIdentity: client.identity, status, timestamp: Date.now(), reducer: { name: reducer, args } } };
+    client.local.emitReducer(reducer, ctx, args);
+  }, LATENCY_MS);
+}
+
+// ============================================================
+// Client sync
+// ============================================================
+// Views have no primary key: a changed row arrives as delete + insert, not update
+const VIEW_TABLES = new Set(['myAgent', 'nearbyTiles', 'nearbyItems', 'nearbyAgents', 'nearbyMessages', 'nearbyActions', 'myObservation']);
+
+// What each table of this client's cache should hold right now
+function clientRows(client: MockClient): Record<string, Row[]> {
+  const me = world.agents.get(client.hex);
+  const near = (r: Row) => !!me && Math.abs(r.x - me.x) <= VIEW_RADIUS && Math.abs(r.y - me.y) <= VIEW_RADIUS;
+  const tiles: Row[] = [];
+  if (me) {
+    for (let y = me.y - VIEW_RADIUS; y <= me.y + VIEW_RADIUS; y++) {
+      for (let x = me.x - VIEW_RADIUS; x <= me.x + VIEW_RADIUS; x++) {
+        const tile = world.tiles.get(`${x},${y}`);
+        if (tile) tiles.push(tile);
+      }
+    }
+  }
+  const observation = world.observations.get(client.hex);
+  return {
+    myAgent: me ? [me] : [],
+    nearbyTiles: tiles,
+    nearbyItems: [...world.items.values()].filter(near),
+    nearbyAgents: [...world.agents.values()].filter(near),
+    nearbyMessages: world.messages.filter(near),
+    nearbyActions: world.actions.filter(near).slice(-NEARBY_ACTIONS_MAX),
+    myObservation: observation ? [observation] : [],
+    agent: [...world.agents.values()],
+    leaderboard: [...world.leaderboard.values()],
+    rule: world.rules,
+    worldrule: world.worldrules,
+    actionlog: world.actions,
+    message: world.messages,
+  };
+}
+
+// Diff the client's cache against the world and fire the matching table events
+function syncClient(client: MockClient) {
+  if (!client.subscribed) return;
+  for (const [accessor, rows] of Object.entries(clientRows(client))) {
+    const table = client.local.table(accessor);
+    const wanted = new Map(rows.map(r => [rowKey(r), r]));
+    for (const key of [...table.keys()]) {
+      if (!wanted.has(key)) table.delete(table.get(key));
+    }
+    for (const [key, row] of wanted) {
+      const current = table.get(key);
+      if (current === row) continue;
+      if (!current) table.insert(row);
+      else if (VIEW_TABLES.has(accessor)) { table.delete(current); table.insert(row); }
+      else table.update(current, row);
+    }
+  }
+}
+
+// ============================================================
+// Connections
+// ============================================================
+// Tokens carry the identity in the clear - there is nothing to protect here
+function tokenIdentity(token: string): string | null {
+  const match = /^mock\.([0-9a-f]{64})$/.exec(token);
+  return match ? match[1] : null;
+}
+
+function randomIdentityHex(): string {
+  return [...crypto.getRandomValues(new Uint8Array(32))].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export const mockDataSource: DataSource = (_server, _module, token, handlers) => {
+  const hex = token ? tokenIdentity(token) : randomIdentityHex();
+  let closed = false;
+  const client: MockClient = {
+    identity: Identity.fromString(hex ?? randomIdentityHex()),
+    hex: hex ?? '',
+    subscribed: false,
+    local: createLocalConnection({
+      onReducer: (reducer, args) => callReducer(client, reducer, args),
+      onSubscribe: () => { client.subscribed = true; syncClient(client); },
+      onDisconnect: () => {
+        closed = true;
+        if (clients.delete(client)) setTimeout(() => handlers.onDisconnect(), 0);
+      },
+    }),
+  };
+  setTimeout(() => {
+    if (closed) return;
+    // Same outcome as a token the real server doesn't know
+    if (!hex) { handlers.onConnectError(new Error('Token was not issued by the mock server')); return; }
+    clients.add(client);
+    handlers.onConnect(client.local.conn, client.identity, `mock.${hex}`);
+  }, LATENCY_MS);
+  return client.local.conn;
+};